@@ -1,45 +1,155 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { transcribeVideoFromFrames, generateSpeech } from './services/geminiService';
-import { extractFramesFromVideo } from './utils/media';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { createProvider } from './services/lipReadingProvider';
+import { indexedDbCassetteStore } from './services/cassetteStore';
+import { formatTranscription, mergeWindowResults, transcriptionFromText } from './services/transcriptionResult';
+import { transcribeEnsemble, ENSEMBLE_PASSES } from './services/ensemble';
+import { createBatchQueue, BatchRunner } from './services/batchQueue';
+import { transcribeJob } from './services/batchTranscription';
+import { LiveWindowTranscriber } from './services/liveTranscription';
+import { buildDialogue, dialogueResult, speakerLabel, DialogueSource } from './services/dialogue';
+import { addUsage, estimateTranscriptionCost, findExceededLimit, spentToday, todayKey, usageCost, EMPTY_USAGE } from './services/costEstimate';
+import { buildLipReadingPrompt, translationLanguage, DEFAULT_TRANSLATION_TARGET } from './services/prompt';
+import { findTemplate, templateRef, DEFAULT_PROMPT_TEMPLATE } from './services/promptTemplates';
+import { addHistoryEntry, listHistoryEntries, deleteHistoryEntry } from './services/historyStore';
+import {
+  extractFramesFromVideo, trackCropThroughVideo, selectInformativeFrames, preprocessFrames, packContactSheets, createThumbnail,
+  loadVideoMetadata, resolveVideoDuration, EXTRACTION_SETTINGS, MAX_CANDIDATE_FRAMES, CONTACT_SHEET_LAYOUTS,
+} from './utils/media';
+import { interpolateCrop, upsertKeyframe } from './utils/crop';
+import { hashFile } from './utils/hash';
+import { isAbortError } from './utils/retry';
+import { AppError, errorStatus } from './utils/errors';
+import { detectFrameRate, DEFAULT_SOURCE_FPS } from './utils/sampling';
+import { splitTimeRange, stitchSegments, LONG_FORM_WINDOW_SECONDS } from './utils/chunking';
+import { formatBatchCsv, formatBatchJson } from './utils/batchExport';
+import { formatSubtitles, SubtitleFormat, SUBTITLE_MIME_TYPES } from './utils/subtitles';
+import { downloadTextFile, downloadBlob, baseFileName } from './utils/download';
+import {
+  appendSentFrames, createProjectFile, createProjectArchive, projectSentFrames, projectToSession, readProjectFile, serializeProject, toSentFrames,
+  NO_SENT_FRAMES,
+} from './utils/project';
 import { decodeBase64, decodeAudioData } from './utils/audio';
-import { CropArea, TimeRange, Status, Stage } from './types';
-import { ResetIcon } from './components/Icons';
+import {
+  loadProviderSettings, saveProviderSettings, loadPreprocessingChain, savePreprocessingChain, loadContextPresets, saveContextPresets,
+  loadPromptTemplates, savePromptTemplates, loadActivePromptTemplate, saveActivePromptTemplate,
+  loadBudget, saveBudget, loadDailySpending, saveDailySpending, loadTranslationTarget, saveTranslationTarget,
+} from './utils/settings';
+import { EMPTY_CONTEXT_HINTS, hasContextHints } from './utils/contextHints';
+import { ContextHints, ContextPreset, CropKeyframe, DroppedFrame, PromptTemplate, EnsembleHypothesis, FramePacking, FrameSequence, PreprocessingStep, TimeRange, TranscriptionResult, TranscriptSegment, Status, Stage, ProviderSettings, HistoryEntry, RecoveryAction, SentFrames, Speaker, SpeakerTranscript, SpeechSource, SpendingBudget, DailySpending, TokenUsage, UsageSummary, BatchJob, BatchJobSettings } from './types';
+import { ResetIcon, SettingsIcon, HistoryIcon, FolderOpenIcon, DocumentTextIcon, QueueListIcon, VideoCameraIcon } from './components/Icons';
 import TimeSelector from './components/TimeSelector';
 import Cropper from './components/Cropper';
 import PreviewPlayer from './components/PreviewPlayer';
 import UploadScreen from './components/UploadScreen';
 import ControlsAndResults from './components/ControlsAndResults';
 import DebugViewer from './components/DebugViewer';
+import SettingsPanel from './components/SettingsPanel';
+import PromptTemplatePanel from './components/PromptTemplatePanel';
+import HistoryPanel from './components/HistoryPanel';
+import BatchPanel from './components/BatchPanel';
+import LiveCapture from './components/LiveCapture';
 
 export default function App() {
   const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [videoHash, setVideoHash] = useState<string | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [videoDuration, setVideoDuration] = useState<number>(0);
-  const [transcription, setTranscription] = useState<string>('');
+  const [result, setResult] = useState<TranscriptionResult | null>(null);
+  const [hypotheses, setHypotheses] = useState<EnsembleHypothesis[]>([]);
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
   const [status, setStatus] = useState<Status>({ stage: 'idle', message: 'Upload a video to begin' });
-  const [isPlayingAudio, setIsPlayingAudio] = useState(false);
+  // Which text is being read aloud, if any.
+  const [playingAudio, setPlayingAudio] = useState<SpeechSource | null>(null);
   const [currentStage, setCurrentStage] = useState<Stage>('uploading');
-  const [cropArea, setCropArea] = useState<CropArea | null>(null);
+  const [cropKeyframes, setCropKeyframes] = useState<CropKeyframe[]>([]);
+  // Empty unless several speakers were cropped; then the first one's crop is `cropKeyframes`.
+  const [speakers, setSpeakers] = useState<Speaker[]>([]);
+  const [speakerTranscripts, setSpeakerTranscripts] = useState<SpeakerTranscript[]>([]);
+  const [trackingEnabled, setTrackingEnabled] = useState(false);
+  const [cropTrack, setCropTrack] = useState<CropKeyframe[] | null>(null);
+  const [longFormEnabled, setLongFormEnabled] = useState(false);
+  const [motionSelectionEnabled, setMotionSelectionEnabled] = useState(false);
+  const [framePacking, setFramePacking] = useState<FramePacking>('frames');
+  // Number of transcription passes voted into a consensus; 1 is a single request.
+  const [ensembleSize, setEnsembleSize] = useState(1);
   const [timeRange, setTimeRange] = useState<TimeRange>({ start: 0, end: 0 });
   const [language, setLanguage] = useState<string>('auto');
   const [isDraggingOver, setIsDraggingOver] = useState(false);
-  const [debugFrames, setDebugFrames] = useState<string[] | null>(null);
+  const [preprocessingChain, setPreprocessingChain] = useState<PreprocessingStep[]>(loadPreprocessingChain);
+  const [contextHints, setContextHints] = useState<ContextHints>(EMPTY_CONTEXT_HINTS);
+  const [contextPresets, setContextPresets] = useState<ContextPreset[]>(loadContextPresets);
+  // The frames shown in the debug view, plus the unprocessed crops when a preprocessing chain was applied
+  // and the candidates left out by motion-aware selection.
+  // `speaker` is the index of the speaker whose crop is shown, in multi-speaker mode.
+  const [debugFrames, setDebugFrames] = useState<{ sequence: FrameSequence; originals: string[] | null; dropped: DroppedFrame[]; speaker?: number } | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // The built-in template plus every version the user saved, and the version in use.
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(() => [DEFAULT_PROMPT_TEMPLATE, ...loadPromptTemplates()]);
+  const [activeTemplateRef, setActiveTemplateRef] = useState(loadActivePromptTemplate);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  // A session waiting for its video to be selected again, with the frames imported from a project archive if any.
+  const [pendingSession, setPendingSession] = useState<{ session: HistoryEntry; sent: SentFrames } | null>(null);
+  const [lastRun, setLastRun] = useState<{ session: HistoryEntry; sent: SentFrames } | null>(null);
+  // The detected frame rate once known, for the cost estimate; extraction awaits sourceFpsRef instead.
+  const [sourceFps, setSourceFps] = useState(DEFAULT_SOURCE_FPS);
+  const [budget, setBudget] = useState<SpendingBudget>(loadBudget);
+  const [dailySpending, setDailySpending] = useState<DailySpending>(loadDailySpending);
+  // Spent since the page was opened.
+  const [sessionSpent, setSessionSpent] = useState(0);
+  const [lastUsage, setLastUsage] = useState<UsageSummary | null>(null);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [batchPaused, setBatchPaused] = useState(true);
+  const [batchConcurrency, setBatchConcurrency] = useState(1);
+  const [isLiveOpen, setIsLiveOpen] = useState(false);
+  const [translationTarget, setTranslationTarget] = useState(loadTranslationTarget);
+
+  const provider = useMemo(() => createProvider(providerSettings, {
+    cassettes: indexedDbCassetteStore,
+    onRetry: (retry) => setStatus(current => ({ ...current, retry })),
+  }), [providerSettings]);
+  const promptTemplate: PromptTemplate = (activeTemplateRef && findTemplate(promptTemplates, activeTemplateRef)) ?? DEFAULT_PROMPT_TEMPLATE;
+  // What every prompt of the editor is built with, besides the language and the frames.
+  const promptOptions = { hints: contextHints, template: promptTemplate, translationTarget };
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  // Cancels the running extraction, transcription or speech request.
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Runs the last started operation again, for the 'retry' recovery action.
+  const retryOperationRef = useRef<(() => void) | null>(null);
+  // Frame rate of the loaded video, measured in the background as soon as it is selected.
+  const sourceFpsRef = useRef<Promise<number>>(Promise.resolve(DEFAULT_SOURCE_FPS));
 
   const resetState = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
     cleanupAudioContext();
     if (videoUrl) URL.revokeObjectURL(videoUrl);
     setVideoFile(null);
+    setVideoHash(null);
     setVideoUrl(null);
     setVideoDuration(0);
-    setTranscription('');
-    setCropArea(null);
+    setResult(null);
+    setHypotheses([]);
+    setSegments([]);
+    setLastRun(null);
+    setPendingSession(null);
+    setCropKeyframes([]);
+    setSpeakers([]);
+    setSpeakerTranscripts([]);
+    setCropTrack(null);
     setCurrentStage('uploading');
     setLanguage('auto');
+    setContextHints(EMPTY_CONTEXT_HINTS);
     setDebugFrames(null);
+    setSourceFps(DEFAULT_SOURCE_FPS);
+    setLastUsage(null);
     setStatus({ stage: 'idle', message: 'Sube un vídeo para comezar' });
     if (fileInputRef.current) {
         fileInputRef.current.value = '';
@@ -62,11 +172,34 @@ export default function App() {
     const url = URL.createObjectURL(file);
     setVideoUrl(url);
 
+    const hashPromise = hashFile(file).catch((error) => {
+      console.warn('Could not hash the video file:', error);
+      return null;
+    });
+    const fpsPromise = detectFrameRate(file)
+      .catch((error) => {
+        console.warn('Could not detect the frame rate:', error);
+        return null;
+      })
+      .then(fps => fps ?? DEFAULT_SOURCE_FPS);
+    sourceFpsRef.current = fpsPromise;
+    fpsPromise.then(fps => {
+      if (sourceFpsRef.current === fpsPromise) setSourceFps(fps);
+    });
+
     const video = document.createElement('video');
     video.src = url;
-    video.onloadedmetadata = () => {
-      setVideoDuration(video.duration);
-      setTimeRange({ start: 0, end: video.duration });
+    video.onloadedmetadata = async () => {
+      const duration = await resolveVideoDuration(video);
+      setVideoDuration(duration);
+      const hash = await hashPromise;
+      setVideoHash(hash);
+
+      if (pendingSession && hash === pendingSession.session.fileHash && file.size === pendingSession.session.fileSize) {
+        applySession(pendingSession.session, pendingSession.sent);
+        return;
+      }
+      setTimeRange({ start: 0, end: duration });
       setCurrentStage('selecting_time');
       setStatus({ stage: 'idle', message: 'Paso 1: Selecciona o intervalo de tempo a analizar.' });
     };
@@ -76,6 +209,104 @@ export default function App() {
     }
   };
 
+  // Restores everything a past run used, so it can be inspected or transcribed again.
+  const applySession = (entry: HistoryEntry, sent: SentFrames = NO_SENT_FRAMES) => {
+    setPendingSession(null);
+    setLastRun({ session: entry, sent });
+    setTimeRange(entry.timeRange);
+    setCropKeyframes(entry.cropKeyframes);
+    setSpeakers(entry.speakers ?? []);
+    setTrackingEnabled(!!entry.cropTrack);
+    setCropTrack(entry.cropTrack);
+    setLanguage(entry.language);
+    setPreprocessingChain(entry.preprocessing ?? []);
+    setContextHints(entry.contextHints ?? EMPTY_CONTEXT_HINTS);
+    const usedTemplate = entry.promptTemplate && findTemplate(promptTemplates, entry.promptTemplate);
+    if (usedTemplate) handleSelectTemplate(usedTemplate);
+    handleTranslationTargetChange(entry.translationTarget ?? DEFAULT_TRANSLATION_TARGET);
+    setResult(entry.result ?? transcriptionFromText(entry.transcription));
+    setHypotheses(entry.hypotheses ?? []);
+    setSpeakerTranscripts(entry.speakerTranscripts ?? []);
+    setSegments(entry.segments);
+    setCurrentStage('preview');
+    setStatus({ stage: 'idle', message: `Sesión do ${new Date(entry.createdAt).toLocaleString()} restaurada. Listo para transcribir de novo.` });
+  };
+
+  const refreshHistory = async () => {
+    try {
+      setHistoryEntries(await listHistoryEntries());
+    } catch (error) {
+      console.warn('Could not load history:', error);
+    }
+  };
+
+  const handleToggleHistory = () => {
+    if (!isHistoryOpen) refreshHistory();
+    setIsHistoryOpen(open => !open);
+  };
+
+  const handleOpenSession = (entry: HistoryEntry, sent: SentFrames = NO_SENT_FRAMES) => {
+    setIsHistoryOpen(false);
+    if (videoFile && videoHash === entry.fileHash && videoFile.size === entry.fileSize) {
+      applySession(entry, sent);
+      return;
+    }
+    // The video is not stored, so wait until the user selects the same file again.
+    resetState();
+    setPendingSession({ session: entry, sent });
+    setStatus({ stage: 'idle', message: `Selecciona de novo o ficheiro "${entry.fileName}" para reabrir a sesión.` });
+  };
+
+  const handleImportProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const { project, frames } = await readProjectFile(file);
+      setLongFormEnabled(project.extraction.longFormEnabled);
+      setMotionSelectionEnabled(!!project.extraction.motionSelectionEnabled);
+      setFramePacking(project.extraction.packing ?? 'frames');
+      handleOpenSession(projectToSession(project), projectSentFrames(project, frames));
+    } catch (error) {
+      console.error('Project import failed:', error);
+      setStatus({ stage: 'error', message: `Non se puido abrir o proxecto: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  };
+
+  const handleExportProject = async (includeFrames: boolean) => {
+    if (!lastRun) return;
+    const { session, sent } = lastRun;
+    const project = createProjectFile(
+      session,
+      {
+        ...EXTRACTION_SETTINGS,
+        sourceFps: await sourceFpsRef.current,
+        trackingEnabled: !!session.cropTrack,
+        longFormEnabled,
+        motionSelectionEnabled,
+        packing: framePacking,
+        preprocessing: session.preprocessing ?? [],
+      },
+      includeFrames ? sent.frames.length : 0,
+      sent
+    );
+    const name = `${baseFileName(session.fileName)}.beizosgal`;
+    if (includeFrames) {
+      downloadBlob(`${name}.zip`, createProjectArchive(project, sent.frames));
+    } else {
+      downloadTextFile(`${name}.json`, serializeProject(project), 'application/json');
+    }
+  };
+
+  const handleDeleteSession = async (id: number) => {
+    try {
+      await deleteHistoryEntry(id);
+    } catch (error) {
+      console.warn('Could not delete history entry:', error);
+    }
+    refreshHistory();
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     processFile(file);
@@ -104,77 +335,555 @@ export default function App() {
 
   const handleTimeSelectConfirm = async (range: TimeRange) => {
     setTimeRange(range);
+    setCropTrack(null);
     setCurrentStage('cropping_area');
     setStatus({ stage: 'idle', message: 'Paso 2: Define a área de recorte nos beizos do falante.' });
   };
 
-  const handleCropConfirm = async (crop: CropArea) => {
-    setCropArea(crop);
+  const handleCropConfirm = async (confirmed: Speaker[]) => {
+    const keyframes = confirmed[0].cropKeyframes;
+    setCropKeyframes(keyframes);
+    setSpeakers(confirmed.length > 1 ? confirmed : []);
+    setCropTrack(null);
     setCurrentStage('preview');
-    setStatus({ stage: 'idle', message: 'Área de recorte establecida. Listo para transcribir.' });
+    if (confirmed.length > 1) {
+      setStatus({ stage: 'idle', message: `Recortes de ${confirmed.length} falantes establecidos. Listo para transcribir.` });
+      return;
+    }
+    setStatus({ stage: 'idle', message: keyframes.length > 1
+      ? `Recorte con ${keyframes.length} fotogramas clave establecido. Listo para transcribir.`
+      : 'Área de recorte establecida. Listo para transcribir.' });
+  };
+
+  // With tracking on, the crop comes from the tracked (and possibly hand-corrected) track, computed once per crop.
+  const resolveCropKeyframes = async (file: File, signal?: AbortSignal) => {
+    if (!trackingEnabled) return cropKeyframes;
+    if (cropTrack) return cropTrack;
+
+    setStatus({ stage: 'processing', message: 'Seguindo a boca...', progress: 0 });
+    const track = await trackCropThroughVideo(
+        file,
+        (p) => setStatus({ stage: 'processing', message: `Seguindo a boca... ${Math.round(p * 100)}%`, progress: p }),
+        timeRange,
+        cropKeyframes,
+        await sourceFpsRef.current,
+        signal
+      );
+    setCropTrack(track);
+    return track;
   };
 
-  const getProcessedFrames = async (taskName: string) => {
-    if (!videoFile || !cropArea || !timeRange) {
-      setStatus({ stage: 'error', message: 'Falta o vídeo, a área de recorte ou o intervalo de tempo.' });
-      throw new Error('Missing requirements');
+  const getProcessedFrames = async (taskName: string, options: { range?: TimeRange; track?: CropKeyframe[]; signal?: AbortSignal } = {}) => {
+    if (!videoFile || cropKeyframes.length === 0 || !timeRange) {
+      throw new AppError('missing_input', 'Falta o vídeo, a área de recorte ou o intervalo de tempo.');
     }
 
+    const keyframes = options.track ?? await resolveCropKeyframes(videoFile, options.signal);
+
     setStatus({ stage: 'processing', message: `Extraendo fotogramas para ${taskName}...`, progress: 0 });
     
-    return extractFramesFromVideo(
+    const extracted = await extractFramesFromVideo(
         videoFile, 
         (p) => setStatus({ stage: 'processing', message: `Extraendo fotogramas... ${Math.round(p * 100)}%`, progress: p }), 
-        timeRange,
-        cropArea
+        options.range ?? timeRange,
+        keyframes,
+        await sourceFpsRef.current,
+        motionSelectionEnabled ? MAX_CANDIDATE_FRAMES : undefined,
+        options.signal
+      );
+
+    let sequence = extracted;
+    let dropped: DroppedFrame[] = [];
+    if (motionSelectionEnabled) {
+      setStatus({ stage: 'processing', message: 'Analizando o movemento...', progress: 0 });
+      ({ sequence, dropped } = await selectInformativeFrames(
+          extracted,
+          (p) => setStatus({ stage: 'processing', message: `Analizando o movemento... ${Math.round(p * 100)}%`, progress: p })
+        ));
+    }
+
+    options.signal?.throwIfAborted();
+    if (preprocessingChain.length === 0) {
+      return { sequence, originals: null, dropped, keyframes };
+    }
+
+    setStatus({ stage: 'processing', message: 'Preprocesando fotogramas...', progress: 0 });
+    const processed = await preprocessFrames(
+        sequence.frames,
+        preprocessingChain,
+        (p) => setStatus({ stage: 'processing', message: `Preprocesando fotogramas... ${Math.round(p * 100)}%`, progress: p })
       );
+    return { sequence: { ...sequence, frames: processed }, originals: sequence.frames, dropped, keyframes };
+  };
+
+  // Tiles the frames into contact sheets when a grid packing is chosen; the debug view keeps showing single frames.
+  const packForModel = async (sequence: FrameSequence) => {
+    if (framePacking === 'frames') return sequence;
+    setStatus({ stage: 'processing', message: 'Montando follas de contacto...' });
+    return packContactSheets(sequence, CONTACT_SHEET_LAYOUTS[framePacking]);
+  };
+
+  // Adds the cost of the tokens billed for one request to the session and daily spending.
+  const recordSpending = (usage: TokenUsage) => {
+    const cost = usageCost(providerSettings.provider, providerSettings.visionModel, usage);
+    if (cost) {
+      setSessionSpent(spent => spent + cost);
+      setDailySpending(current => ({ date: todayKey(), cost: spentToday(current) + cost }));
+    }
+    return cost;
+  };
+
+  // Also adds the request to the usage of the run in the editor.
+  const recordUsage = (usage: TokenUsage) => {
+    const cost = recordSpending(usage);
+    setLastUsage(current => addUsage(current ?? EMPTY_USAGE, usage, cost));
+  };
+
+  // Stops a batch job in block mode, or flags it in warn mode, when a window's estimated cost would exceed
+  // the budget. Read through a ref, so a running job sees the spending of its own earlier windows.
+  const batchBudgetCheckRef = useRef<(job: BatchJob, window: TimeRange) => void>(() => {});
+  batchBudgetCheckRef.current = (job, window) => {
+    const { settings } = job;
+    const crop = settings.cropKeyframes[0].crop;
+    const { cost } = estimateTranscriptionCost({
+      provider: providerSettings.provider,
+      model: providerSettings.visionModel,
+      timeRange: window,
+      sourceFps: job.sourceFps,
+      cropAspect: crop.width / crop.height,
+      longFormEnabled: false,
+      motionSelectionEnabled: settings.motionSelectionEnabled,
+      framePacking: settings.framePacking,
+      ensembleSize: settings.ensembleSize,
+      buildPrompt: (sequence) => buildLipReadingPrompt(settings.language, sequence, {
+        hints: settings.contextHints,
+        template: settings.template,
+        translationTarget: settings.translationTarget,
+      }),
+    });
+    const exceeded = findExceededLimit(budget, cost ?? 0, sessionSpent, spentToday(dailySpending));
+    if (exceeded && budget.mode === 'block') {
+      throw new AppError('budget_exceeded', exceeded);
+    }
+    if (exceeded) {
+      batchQueue.warn(job.id, exceeded);
+    }
+  };
+
+  // The queue lives for the whole page; its runner always uses the current provider.
+  const batchRunnerRef = useRef<BatchRunner | null>(null);
+  batchRunnerRef.current = (job, signal, onProgress) =>
+    transcribeJob(job, provider, signal, onProgress, recordSpending, (window) => batchBudgetCheckRef.current(job, window));
+  const batchQueue = useMemo(() => createBatchQueue((job, signal, onProgress) => batchRunnerRef.current!(job, signal, onProgress), setBatchJobs), []);
+
+  // The editor's transcription settings, for a batch job.
+  const batchJobSettings = (overrides: Partial<BatchJobSettings>): BatchJobSettings => ({
+    timeRange,
+    cropKeyframes,
+    trackingEnabled,
+    language,
+    longFormEnabled,
+    motionSelectionEnabled,
+    framePacking,
+    ensembleSize,
+    preprocessing: preprocessingChain,
+    contextHints,
+    template: promptTemplate,
+    translationTarget,
+    ...overrides,
+  });
+
+  const newBatchJob = (file: File, sourceFps: number, settings: BatchJobSettings): BatchJob => ({
+    id: crypto.randomUUID(),
+    file,
+    sourceFps,
+    settings,
+    status: 'pending',
+    progress: 0,
+    message: '',
+  });
+
+  // Queues the video in the editor with its range, crop and settings; a reviewed track is used as is.
+  const handleAddToBatch = async () => {
+    if (!videoFile || cropKeyframes.length === 0) return;
+    const settings = trackingEnabled && cropTrack
+      ? batchJobSettings({ cropKeyframes: cropTrack, trackingEnabled: false })
+      : batchJobSettings({});
+    batchQueue.add([newBatchJob(videoFile, await sourceFpsRef.current, settings)]);
+    setIsBatchOpen(true);
+    setStatus({ stage: 'idle', message: 'Engadido á cola de traballos.' });
+  };
+
+  // Queues whole videos, cropped to the full frame, with the editor's other settings.
+  const handleAddBatchFiles = async (files: File[]) => {
+    const videos = files.filter(file => file.type.startsWith('video/'));
+    const failed: string[] = [];
+    const jobs = await Promise.all(videos.map(async (file) => {
+      try {
+        const [metadata, fps] = await Promise.all([loadVideoMetadata(file), detectFrameRate(file).catch(() => null)]);
+        return newBatchJob(file, fps ?? DEFAULT_SOURCE_FPS, batchJobSettings({
+          timeRange: { start: 0, end: metadata.duration },
+          cropKeyframes: [{ time: 0, crop: { x: 0, y: 0, width: metadata.width, height: metadata.height } }],
+          trackingEnabled: false,
+          longFormEnabled: metadata.duration > LONG_FORM_WINDOW_SECONDS,
+        }));
+      } catch (error) {
+        console.warn(`Could not queue ${file.name}:`, error);
+        failed.push(file.name);
+        return null;
+      }
+    }));
+    batchQueue.add(jobs.filter((job): job is BatchJob => !!job));
+    if (failed.length > 0 || videos.length < files.length) {
+      const skipped = [...failed, ...files.filter(file => !videos.includes(file)).map(file => file.name)];
+      window.alert(`Non se puideron engadir á cola: ${skipped.join(', ')}.`);
+    }
+  };
+
+  const handleBatchPause = () => {
+    batchQueue.pause();
+    setBatchPaused(true);
+  };
+
+  const handleBatchResume = () => {
+    batchQueue.resume();
+    setBatchPaused(false);
+  };
+
+  const handleBatchConcurrencyChange = (concurrency: number) => {
+    batchQueue.setConcurrency(concurrency);
+    setBatchConcurrency(concurrency);
+  };
+
+  const handleExportBatch = (format: 'csv' | 'json') => {
+    const exported = batchJobs.filter(job => job.status === 'done' || job.status === 'error');
+    if (format === 'csv') {
+      downloadTextFile('beizosgal-cola.csv', formatBatchCsv(exported), 'text/csv');
+    } else {
+      downloadTextFile('beizosgal-cola.json', formatBatchJson(exported), 'application/json');
+    }
+  };
+
+  // Transcribes one webcam window with the editor's preprocessing, packing, hints and template.
+  // The budget is checked before every window, as a live session keeps spending until stopped.
+  const transcribeLiveWindow: LiveWindowTranscriber = async (sequence, signal) => {
+    const exceeded = findExceededLimit(budget, 0, sessionSpent, spentToday(dailySpending));
+    if (exceeded && budget.mode === 'block') {
+      throw new AppError('budget_exceeded', exceeded);
+    }
+    const frames = preprocessingChain.length > 0
+      ? { ...sequence, frames: await preprocessFrames(sequence.frames, preprocessingChain, () => {}) }
+      : sequence;
+    const packed = framePacking === 'frames' ? frames : await packContactSheets(frames, CONTACT_SHEET_LAYOUTS[framePacking]);
+    return provider.transcribeVideoFromFrames(packed, language, { ...promptOptions, signal, onUsage: recordSpending });
+  };
+
+  // Loads a clip recorded from the webcam into the editor, like an uploaded video.
+  const handleOpenLiveClip = (file: File) => {
+    setIsLiveOpen(false);
+    processFile(file);
+  };
+
+  // Sends the frames once, or runs the ensemble passes when more than one is selected.
+  // `sequence` is `frames` already packed for the model, reused by the passes that see every frame.
+  const transcribeFrames = async (frames: FrameSequence, sequence: FrameSequence, message: string, signal?: AbortSignal) => {
+    const options = { ...promptOptions, signal, onUsage: recordUsage };
+    if (ensembleSize <= 1) {
+      setStatus({ stage: 'analyzing', message });
+      return { result: await provider.transcribeVideoFromFrames(sequence, language, options), hypotheses: [] as EnsembleHypothesis[] };
+    }
+    return transcribeEnsemble(
+      provider,
+      frames,
+      language,
+      ensembleSize,
+      (s) => (s === frames ? Promise.resolve(sequence) : packForModel(s)),
+      (index, pass) => setStatus({ stage: 'analyzing', message: `${message} (pasada ${index + 1}/${ensembleSize}: ${pass.label})` }),
+      options
+    );
+  };
+
+  // Keeps the finished run (and the exact frames sent) for project export, and stores it in the history.
+  const recordRun = async (
+    runResult: TranscriptionResult,
+    resultSegments: TranscriptSegment[],
+    sent: SentFrames,
+    keyframes: CropKeyframe[],
+    prompt: string,
+    runHypotheses: EnsembleHypothesis[] = [],
+    runSpeakerTranscripts: SpeakerTranscript[] = []
+  ) => {
+    if (!videoFile || !videoHash) return;
+    const session: HistoryEntry = {
+      createdAt: Date.now(),
+      fileName: videoFile.name,
+      fileSize: videoFile.size,
+      fileHash: videoHash,
+      timeRange,
+      cropKeyframes,
+      cropTrack: trackingEnabled ? keyframes : null,
+      speakers: speakers.length > 0 ? speakers : undefined,
+      language,
+      provider: providerSettings.provider,
+      model: providerSettings.visionModel,
+      prompt,
+      promptTemplate: templateRef(promptTemplate),
+      translationTarget,
+      transcription: formatTranscription(runResult, translationLanguage(translationTarget)),
+      result: runResult,
+      hypotheses: runHypotheses.length > 0 ? runHypotheses : undefined,
+      speakerTranscripts: runSpeakerTranscripts.length > 0 ? runSpeakerTranscripts : undefined,
+      segments: resultSegments,
+      preprocessing: preprocessingChain,
+      contextHints: hasContextHints(contextHints) ? contextHints : undefined,
+    };
+    setLastRun({ session, sent });
+    try {
+      await addHistoryEntry({
+        ...session,
+        thumbnail: sent.frames[0] ? await createThumbnail(sent.frames[0]) : undefined,
+      });
+    } catch (error) {
+      console.warn('Could not save the session to history:', error);
+    }
   };
 
+  // Splits the range into overlapping windows and transcribes them one by one, showing the transcript as it grows.
+  const handleLongFormTranscribe = async (signal: AbortSignal) => {
+    const windows = splitTimeRange(timeRange);
+    const results: TranscriptionResult[] = [];
+    // Per ensemble pass, its result for every window.
+    const passResults: TranscriptionResult[][] = [];
+    const frameOffsets: number[] = [];
+    let stitched: TranscriptSegment[] = [];
+    let track: CropKeyframe[] | undefined;
+    let sent = NO_SENT_FRAMES;
+    let firstPrompt = '';
+
+    for (const [index, window] of windows.entries()) {
+      // The crop (or tracked crop) is resolved on the first window and reused for the rest.
+      const { sequence: frames, keyframes } = await getProcessedFrames(`o tramo ${index + 1}/${windows.length}`, { range: window, track, signal });
+      track = keyframes;
+      const sequence = await packForModel(frames);
+
+      // The recorded prompt is the one sent for the first window.
+      if (index === 0) {
+        firstPrompt = buildLipReadingPrompt(language, sequence, promptOptions);
+      }
+      frameOffsets.push(sent.timestamps.length);
+      sent = appendSentFrames(sent, sequence);
+      const run = await transcribeFrames(frames, sequence, `A IA está analizando o tramo ${index + 1} de ${windows.length}...`, signal);
+      results.push(run.result);
+      run.hypotheses.forEach((hypothesis, pass) => (passResults[pass] ??= []).push(hypothesis.result));
+
+      const done = windows.slice(0, index + 1);
+      stitched = stitchSegments(done, results.map(r => (r.noSpeech ? '' : r.transcript)));
+      setSegments(stitched);
+      setResult(mergeWindowResults(done, results, frameOffsets));
+    }
+    const mergedHypotheses = passResults.map((windowResults, pass) => ({
+      label: ENSEMBLE_PASSES[pass].label,
+      result: mergeWindowResults(windows, windowResults, frameOffsets),
+    }));
+    setHypotheses(mergedHypotheses);
+    if (track) {
+      await recordRun(mergeWindowResults(windows, results, frameOffsets), stitched, sent, track, firstPrompt, mergedHypotheses);
+    }
+    setStatus({ stage: 'success', message: `Transcrición completada (${windows.length} tramos)!` });
+  };
+
+  // Transcribes every speaker's crop on its own (window by window in long form) and interleaves the
+  // results into a dialogue. Each crop is used as drawn; tracking only follows the single-speaker crop.
+  const handleMultiSpeakerTranscribe = async (signal: AbortSignal) => {
+    const windows = longFormEnabled ? splitTimeRange(timeRange) : [timeRange];
+    const sources: DialogueSource[] = [];
+    // The history keeps the frames and prompt sent for the first speaker.
+    let firstSent: SentFrames | null = null;
+    let firstPrompt = '';
+
+    for (const [speakerIndex, speaker] of speakers.entries()) {
+      const results: TranscriptionResult[] = [];
+      const frameOffsets: number[] = [];
+      let sent = NO_SENT_FRAMES;
+      for (const [index, window] of windows.entries()) {
+        const part = windows.length > 1 ? `, tramo ${index + 1}/${windows.length}` : '';
+        const { sequence: frames } = await getProcessedFrames(`${speaker.label}${part}`, { range: window, track: speaker.cropKeyframes, signal });
+        const sequence = await packForModel(frames);
+        if (index === 0 && speakerIndex === 0) {
+          firstPrompt = buildLipReadingPrompt(language, sequence, promptOptions);
+        }
+        frameOffsets.push(sent.timestamps.length);
+        sent = appendSentFrames(sent, sequence);
+        const run = await transcribeFrames(frames, sequence, `A IA está analizando os beizos de ${speaker.label}${part}...`, signal);
+        results.push(run.result);
+      }
+      if (speakerIndex === 0) firstSent = sent;
+
+      const texts = results.map(r => (r.noSpeech ? '' : r.transcript));
+      const speakerResult = windows.length > 1 ? mergeWindowResults(windows, results, frameOffsets) : results[0];
+      const speakerSegments = windows.length > 1 ? stitchSegments(windows, texts) : (speakerResult.noSpeech ? [] : [{ ...timeRange, text: speakerResult.transcript }]);
+      sources.push({ label: speaker.label, result: speakerResult, segments: speakerSegments, timestamps: sent.timestamps });
+    }
+
+    const transcripts = sources.map(({ label, result: speakerResult, segments: speakerSegments }) => ({ label, result: speakerResult, segments: speakerSegments }));
+    const dialogue = buildDialogue(sources);
+    const runResult = dialogueResult(transcripts, dialogue);
+    setResult(runResult);
+    setSegments(dialogue);
+    setSpeakerTranscripts(transcripts);
+    if (firstSent) {
+      await recordRun(runResult, dialogue, firstSent, speakers[0].cropKeyframes, firstPrompt, [], transcripts);
+    }
+    setStatus({ stage: 'success', message: `Transcrición completada (${speakers.length} falantes)!` });
+  };
+
+  // Starts a cancellable operation, cancelling any still running. `retry` runs it again.
+  const startOperation = (retry: () => void) => {
+    retryOperationRef.current = retry;
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = new AbortController();
+    return abortControllerRef.current.signal;
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleRecover = (action: RecoveryAction) => {
+    switch (action) {
+      case 'retry':
+        retryOperationRef.current?.();
+        return;
+      case 'change_crop':
+        setCurrentStage('cropping_area');
+        setStatus({ stage: 'idle', message: 'Paso 2: Define a área de recorte nos beizos do falante.' });
+        return;
+      case 'reduce_frames':
+        setCurrentStage('selecting_time');
+        setStatus({ stage: 'idle', message: 'Escolle un intervalo máis curto para enviar menos fotogramas.' });
+        return;
+      case 'open_settings':
+        setIsSettingsOpen(true);
+        return;
+    }
+  };
+
+  // False once the operation was replaced by a newer one or the session was reset, so its late
+  // cancellation does not overwrite their status.
+  const isCurrentOperation = (signal: AbortSignal) => abortControllerRef.current?.signal === signal;
+
   const handleTranscribe = async () => {
+    const signal = startOperation(handleTranscribe);
     try {
+      const exceeded = findExceededLimit(budget, costEstimate?.cost ?? 0, sessionSpent, spentToday(dailySpending));
+      if (exceeded && budget.mode === 'block') {
+        throw new AppError('budget_exceeded', exceeded);
+      }
+      if (exceeded && !window.confirm(`${exceeded}\n\nTranscribir igualmente?`)) {
+        setStatus({ stage: 'idle', message: 'Transcrición cancelada.' });
+        return;
+      }
+      setLastUsage(EMPTY_USAGE);
       setCurrentStage('processing');
-      const frames = await getProcessedFrames('transcription');
+      setSegments([]);
+      setHypotheses([]);
+      setSpeakerTranscripts([]);
+      if (speakers.length > 1) {
+        await handleMultiSpeakerTranscribe(signal);
+        return;
+      }
+      if (longFormEnabled) {
+        await handleLongFormTranscribe(signal);
+        return;
+      }
+      const { sequence: frames, keyframes } = await getProcessedFrames('transcription', { signal });
+      const sequence = await packForModel(frames);
 
-      setStatus({ stage: 'analyzing', message: 'A IA está analizando os movementos dos beizos...' });
-      const duration = timeRange.end - timeRange.start;
-      const effectiveFps = 90 / duration;
-      const result = await transcribeVideoFromFrames(frames, language, effectiveFps);
-      setTranscription(result);
+      const { result: runResult, hypotheses: runHypotheses } = await transcribeFrames(frames, sequence, 'A IA está analizando os movementos dos beizos...', signal);
+      const resultSegments = runResult.noSpeech ? [] : [{ start: timeRange.start, end: timeRange.end, text: runResult.transcript }];
+      setResult(runResult);
+      setHypotheses(runHypotheses);
+      setSegments(resultSegments);
+      await recordRun(runResult, resultSegments, toSentFrames(sequence), keyframes, buildLipReadingPrompt(language, sequence, promptOptions), runHypotheses);
       setStatus({ stage: 'success', message: 'Transcrición completada!' });
     } catch (error) {
-      console.error('Transcription failed:', error);
-      if (error instanceof Error && error.message !== 'Missing requirements') {
-          setStatus({ stage: 'error', message: `Ocorreu un erro: ${error.message}` });
+      if (isAbortError(error)) {
+        if (isCurrentOperation(signal)) {
+          setCurrentStage('preview');
+          setStatus({ stage: 'idle', message: 'Transcrición cancelada.' });
+        }
+        return;
       }
+      console.error('Transcription failed:', error);
+      setStatus(errorStatus(error));
     }
   };
 
-  const handleDebug = async () => {
+  // In multi-speaker mode shows the frames of one speaker's crop, the first one unless chosen.
+  const handleDebug = async (speakerIndex: number = 0) => {
+    const signal = startOperation(() => handleDebug(speakerIndex));
+    const speaker = speakers.length > 1 ? speakers[speakerIndex] : undefined;
     try {
-      const frames = await getProcessedFrames('debug');
-      setDebugFrames(frames);
+      const { sequence, originals, dropped } = speaker
+        ? await getProcessedFrames(`debug (${speaker.label})`, { track: speaker.cropKeyframes, signal })
+        : await getProcessedFrames('debug', { signal });
+      setDebugFrames({ sequence, originals, dropped, speaker: speaker ? speakerIndex : undefined });
       setCurrentStage('debugging');
-      setStatus({ stage: 'idle', message: 'Fotogramas de depuración extraídos.' });
+      setStatus({ stage: 'idle', message: speaker ? `Fotogramas de depuración de ${speaker.label} extraídos.` : 'Fotogramas de depuración extraídos.' });
     } catch (error) {
+      if (isAbortError(error)) {
+        if (isCurrentOperation(signal)) {
+          setStatus({ stage: 'idle', message: 'Extracción cancelada.' });
+        }
+        return;
+      }
       console.error('Debug failed:', error);
-      if (error instanceof Error && error.message !== 'Missing requirements') {
-          setStatus({ stage: 'error', message: `Ocorreu un erro: ${error.message}` });
+      setStatus(errorStatus(error));
+    }
+  };
+
+  // Merges the crops corrected in the debug view into the full track.
+  const handleTrackCorrection = async (corrections: CropKeyframe[]) => {
+    const signal = startOperation(() => handleTrackCorrection(corrections));
+    try {
+      const track = corrections.reduce(upsertKeyframe, cropTrack ?? []);
+      setCropTrack(track);
+      const { sequence, originals, dropped } = await getProcessedFrames('debug', { track, signal });
+      setDebugFrames({ sequence, originals, dropped });
+      setStatus({ stage: 'idle', message: 'Correccións do seguimento aplicadas.' });
+    } catch (error) {
+      if (isAbortError(error)) {
+        if (isCurrentOperation(signal)) {
+          setStatus({ stage: 'idle', message: 'Extracción cancelada.' });
+        }
+        return;
       }
+      console.error('Track correction failed:', error);
+      setStatus(errorStatus(error));
     }
   };
 
-  const handlePlayAudio = async () => {
-    if (isPlayingAudio) {
+  const handleTrackingChange = (enabled: boolean) => {
+    setTrackingEnabled(enabled);
+    setCropTrack(null);
+  };
+
+  // Reads the transcript or the translation aloud; asking for the one playing stops it.
+  const handlePlayAudio = async (speech: SpeechSource) => {
+    if (playingAudio) {
       audioSourceRef.current?.stop();
-      setIsPlayingAudio(false);
-      return;
+      audioSourceRef.current = null;
+      setPlayingAudio(null);
+      if (playingAudio === speech) return;
     }
 
-    if (!transcription) return;
+    const text = speech === 'translation' ? result?.translation : result?.transcript;
+    if (!result || result.noSpeech || !text) return;
+    const signal = startOperation(() => handlePlayAudio(speech));
     setStatus({ stage: 'generating_audio', message: 'Xerando audio...' });
 
     try {
-      const audioBase64 = await generateSpeech(transcription);
+      const audioBase64 = await provider.generateSpeech(text, signal);
       if (!audioContextRef.current) {
         const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
         audioContextRef.current = new AudioContextClass({ sampleRate: 32000 });
@@ -185,14 +894,22 @@ export default function App() {
       const source = context.createBufferSource();
       source.buffer = audioBuffer;
       source.connect(context.destination);
-      source.onended = () => setIsPlayingAudio(false);
+      source.onended = () => {
+        if (audioSourceRef.current === source) setPlayingAudio(null);
+      };
       source.start();
       audioSourceRef.current = source;
-      setIsPlayingAudio(true);
+      setPlayingAudio(speech);
       setStatus({ stage: 'success', message: 'Reproducindo audio.' });
     } catch (error) {
+      if (isAbortError(error)) {
+        if (isCurrentOperation(signal)) {
+          setStatus({ stage: 'idle', message: 'Xeración de audio cancelada.' });
+        }
+        return;
+      }
       console.error('Text-to-speech failed:', error);
-      setStatus({ stage: 'error', message: `Non se puido xerar o audio: ${error instanceof Error ? error.message : 'Unknown error'}` });
+      setStatus(errorStatus(error, 'Non se puido xerar o audio'));
     }
   };
 
@@ -201,17 +918,110 @@ export default function App() {
       audioSourceRef.current.stop();
       audioSourceRef.current = null;
     }
+    setPlayingAudio(null);
     if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
       audioContextRef.current.close();
       audioContextRef.current = null;
     }
   };
 
+  const handlePreprocessingChange = (chain: PreprocessingStep[]) => {
+    setPreprocessingChain(chain);
+    savePreprocessingChain(chain);
+  };
+
+  const handleContextPresetsChange = (presets: ContextPreset[]) => {
+    setContextPresets(presets);
+    saveContextPresets(presets);
+  };
+
+  const handleTranslationTargetChange = (target: string) => {
+    setTranslationTarget(target);
+    saveTranslationTarget(target);
+  };
+
+  const handleBudgetChange = (next: SpendingBudget) => {
+    setBudget(next);
+    saveBudget(next);
+  };
+
+  const handleSettingsSave = (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+    setIsSettingsOpen(false);
+  };
+
+  const handleSelectTemplate = (template: PromptTemplate) => {
+    const ref = { id: template.id, version: template.version };
+    setActiveTemplateRef(ref);
+    saveActivePromptTemplate(ref);
+  };
+
+  const handleAddTemplate = (template: PromptTemplate) => {
+    const library = [...promptTemplates, template];
+    setPromptTemplates(library);
+    savePromptTemplates(library.filter(t => t !== DEFAULT_PROMPT_TEMPLATE));
+    handleSelectTemplate(template);
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    const library = promptTemplates.filter(t => t.id !== id);
+    setPromptTemplates(library);
+    savePromptTemplates(library.filter(t => t !== DEFAULT_PROMPT_TEMPLATE));
+    handleSelectTemplate(DEFAULT_PROMPT_TEMPLATE);
+  };
+
   const copyToClipboard = () => {
-    navigator.clipboard.writeText(transcription);
+    if (result) navigator.clipboard.writeText(formatTranscription(result, translationLanguage(translationTarget)));
+  };
+
+  const handleExportSubtitles = (format: SubtitleFormat) => {
+    if (segments.length === 0) return;
+    const name = videoFile ? baseFileName(videoFile.name) : 'transcricion';
+    downloadTextFile(`${name}.${format}`, formatSubtitles(segments, format), SUBTITLE_MIME_TYPES[format]);
+  };
+
+  // Downloads one speaker's own transcription, as plain text or as subtitles without the other speakers.
+  const handleExportSpeaker = (index: number, format: SubtitleFormat | 'txt') => {
+    const transcript = speakerTranscripts[index];
+    if (!transcript) return;
+    const name = `${videoFile ? baseFileName(videoFile.name) : 'transcricion'}-${transcript.label.trim().replace(/[^\p{L}\p{N}]+/gu, '-')}`;
+    if (format === 'txt') {
+      downloadTextFile(`${name}.txt`, formatTranscription(transcript.result, translationLanguage(translationTarget)), 'text/plain');
+    } else {
+      downloadTextFile(`${name}.${format}`, formatSubtitles(transcript.segments, format), SUBTITLE_MIME_TYPES[format]);
+    }
   };
   
-  const canTranscribe = videoFile && cropArea && timeRange && !isProcessing && currentStage === 'preview';
+  const canTranscribe = videoFile && cropKeyframes.length > 0 && timeRange && !isProcessing && currentStage === 'preview';
+
+  const costEstimate = useMemo(() => {
+    if (!videoFile || cropKeyframes.length === 0 || !(timeRange.end > timeRange.start)) return null;
+    return estimateTranscriptionCost({
+      provider: providerSettings.provider,
+      model: providerSettings.visionModel,
+      timeRange,
+      sourceFps,
+      cropAspect: cropKeyframes[0].crop.width / cropKeyframes[0].crop.height,
+      longFormEnabled,
+      motionSelectionEnabled,
+      framePacking,
+      ensembleSize,
+      speakerCount: Math.max(1, speakers.length),
+      buildPrompt: (sequence) => buildLipReadingPrompt(language, sequence, promptOptions),
+    });
+  }, [videoFile, cropKeyframes, timeRange, sourceFps, providerSettings, longFormEnabled, motionSelectionEnabled, framePacking, ensembleSize, language, contextHints, promptTemplate, translationTarget, speakers]);
+
+  // The track is sampled more densely than long ranges are sent; the debug view corrects one crop per frame it shows.
+  const debugTrack = useMemo(() => {
+    // Speakers' crops are used as drawn, so only the single-speaker track can be corrected.
+    if (!trackingEnabled || !cropTrack || !debugFrames || debugFrames.speaker !== undefined) return null;
+    return debugFrames.sequence.timestamps.map(time => ({ time, crop: interpolateCrop(cropTrack, time) }));
+  }, [trackingEnabled, cropTrack, debugFrames]);
+
+  useEffect(() => {
+    saveDailySpending(dailySpending);
+  }, [dailySpending]);
 
   useEffect(() => {
     return () => {
@@ -222,24 +1032,39 @@ export default function App() {
   
   const renderLeftColumn = () => {
     if (currentStage === 'debugging' && debugFrames) {
-        return <DebugViewer frames={debugFrames} onClose={() => setCurrentStage('preview')} />
+        return (
+          <DebugViewer
+            frames={debugFrames.sequence.frames}
+            originalFrames={debugFrames.originals}
+            droppedFrames={debugFrames.dropped}
+            timestamps={debugFrames.sequence.timestamps}
+            fps={debugFrames.sequence.fps}
+            track={debugTrack}
+            isProcessing={isProcessing}
+            onApplyTrack={handleTrackCorrection}
+            speakerLabels={speakers.length > 1 ? speakers.map(speaker => speaker.label) : undefined}
+            activeSpeaker={debugFrames.speaker}
+            onSelectSpeaker={handleDebug}
+            onClose={() => setCurrentStage('preview')}
+          />
+        );
     }
 
     switch(currentStage) {
       case 'selecting_time':
         return videoUrl && <TimeSelector videoUrl={videoUrl} duration={videoDuration} onConfirm={handleTimeSelectConfirm} onCancel={resetState}/>
       case 'cropping_area':
-        return videoUrl && <Cropper videoUrl={videoUrl} timeRange={timeRange} initialCropArea={cropArea} onCropConfirm={handleCropConfirm} onCancel={() => setCurrentStage('selecting_time')} />
+        return videoUrl && <Cropper videoUrl={videoUrl} timeRange={timeRange} initialSpeakers={speakers.length > 0 ? speakers : [{ label: speakerLabel(0), cropKeyframes }]} onCropConfirm={handleCropConfirm} onCancel={() => setCurrentStage('selecting_time')} />
       case 'preview':
       case 'processing':
-         if (!videoUrl || !cropArea) {
+         if (!videoUrl || cropKeyframes.length === 0) {
            return (
               <div className="bg-black rounded-lg aspect-video flex items-center justify-center">
                   <p className="text-gray-500">Preview not available.</p>
               </div>
            );
          }
-         return <PreviewPlayer videoUrl={videoUrl} timeRange={timeRange} cropArea={cropArea} />;
+         return <PreviewPlayer videoUrl={videoUrl} timeRange={timeRange} cropKeyframes={cropKeyframes} segments={segments} />;
       case 'uploading':
       default:
         return (
@@ -251,6 +1076,7 @@ export default function App() {
               onDragLeave={handleDragLeave}
               onDrop={handleDrop}
               onFileChange={handleFileChange}
+              onOpenCamera={() => setIsLiveOpen(true)}
             />
         )
     }
@@ -267,14 +1093,88 @@ export default function App() {
           <p className="mt-2 text-lg text-gray-400">
             Sube un vídeo, selecciona un intervalo de tempo, recorta os beizos e deixa que a IA Gemini transcriba.
           </p>
-          {currentStage !== 'uploading' && (
-             <button onClick={resetState} className="absolute top-0 right-0 flex items-center gap-2 text-sm py-2 px-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
-                <ResetIcon className="w-4 h-4" />
-                <span>Comezar de novo</span>
+          <div className="absolute top-0 right-0 flex gap-2">
+            {currentStage !== 'uploading' && (
+               <button onClick={resetState} className="flex items-center gap-2 text-sm py-2 px-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+                  <ResetIcon className="w-4 h-4" />
+                  <span>Comezar de novo</span>
+              </button>
+            )}
+            <input ref={projectInputRef} type="file" accept=".json,.zip,application/json,application/zip" className="hidden" onChange={handleImportProject} />
+            <button onClick={() => projectInputRef.current?.click()} title="Abrir proxecto" className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+              <FolderOpenIcon className="w-4 h-4" />
             </button>
-          )}
+            <button onClick={handleToggleHistory} title="Historial de sesións" className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+              <HistoryIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => setIsLiveOpen(open => !open)} title="Cámara en directo" className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+              <VideoCameraIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => setIsBatchOpen(open => !open)} title="Cola de traballos" className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+              <QueueListIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => setIsTemplatesOpen(open => !open)} title="Modelos de prompt" className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+              <DocumentTextIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => setIsSettingsOpen(open => !open)} title="Axustes do provedor" className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+              <SettingsIcon className="w-4 h-4" />
+            </button>
+          </div>
         </header>
 
+        {isHistoryOpen && (
+          <HistoryPanel
+            entries={historyEntries}
+            onOpen={handleOpenSession}
+            onDelete={handleDeleteSession}
+            onClose={() => setIsHistoryOpen(false)}
+          />
+        )}
+
+        {isLiveOpen && (
+          <LiveCapture
+            language={language}
+            onLanguageChange={(e) => setLanguage(e.target.value)}
+            transcribe={transcribeLiveWindow}
+            onOpenClip={handleOpenLiveClip}
+            onClose={() => setIsLiveOpen(false)}
+          />
+        )}
+
+        {isBatchOpen && (
+          <BatchPanel
+            jobs={batchJobs}
+            paused={batchPaused}
+            concurrency={batchConcurrency}
+            onAddFiles={handleAddBatchFiles}
+            onPause={handleBatchPause}
+            onResume={handleBatchResume}
+            onConcurrencyChange={handleBatchConcurrencyChange}
+            onCancel={batchQueue.cancel}
+            onRetry={batchQueue.retry}
+            onRemove={batchQueue.remove}
+            onClearFinished={batchQueue.clearFinished}
+            onExport={handleExportBatch}
+            onClose={() => setIsBatchOpen(false)}
+          />
+        )}
+
+        {isSettingsOpen && (
+          <SettingsPanel settings={providerSettings} onSave={handleSettingsSave} onClose={() => setIsSettingsOpen(false)} />
+        )}
+
+        {isTemplatesOpen && (
+          <PromptTemplatePanel
+            key={`${promptTemplate.id}@${promptTemplate.version}`}
+            library={promptTemplates}
+            active={promptTemplate}
+            onSelect={handleSelectTemplate}
+            onAdd={handleAddTemplate}
+            onDelete={handleDeleteTemplate}
+            onClose={() => setIsTemplatesOpen(false)}
+          />
+        )}
+
         <main className="bg-gray-800 shadow-2xl rounded-lg p-6 space-y-6">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <div className="space-y-4 min-h-[300px] flex flex-col">
@@ -284,17 +1184,53 @@ export default function App() {
             <ControlsAndResults 
               currentStage={currentStage}
               status={status}
-              transcription={transcription}
-              isPlayingAudio={isPlayingAudio}
+              result={result}
+              playingAudio={playingAudio}
               isProcessing={isProcessing}
               canTranscribe={canTranscribe}
               language={language}
+              trackingEnabled={trackingEnabled}
+              onTrackingChange={handleTrackingChange}
+              longFormEnabled={longFormEnabled}
+              onLongFormChange={setLongFormEnabled}
+              motionSelectionEnabled={motionSelectionEnabled}
+              onMotionSelectionChange={setMotionSelectionEnabled}
+              framePacking={framePacking}
+              ensembleSize={ensembleSize}
+              onEnsembleSizeChange={setEnsembleSize}
+              hypotheses={hypotheses}
+              onFramePackingChange={setFramePacking}
+              preprocessingChain={preprocessingChain}
+              onPreprocessingChange={handlePreprocessingChange}
+              contextHints={contextHints}
+              onContextHintsChange={setContextHints}
+              contextPresets={contextPresets}
+              onContextPresetsChange={handleContextPresetsChange}
+              costEstimate={costEstimate}
+              model={providerSettings.visionModel}
+              budget={budget}
+              onBudgetChange={handleBudgetChange}
+              sessionSpent={sessionSpent}
+              dailySpent={spentToday(dailySpending)}
+              lastUsage={lastUsage}
+              segments={segments}
               onLanguageChange={(e) => setLanguage(e.target.value)}
+              translationTarget={translationTarget}
+              onTranslationTargetChange={handleTranslationTargetChange}
               onSetStage={setCurrentStage}
               onTranscribe={handleTranscribe}
               onPlayAudio={handlePlayAudio}
               onCopy={copyToClipboard}
-              onDebug={handleDebug}
+              onExportSubtitles={handleExportSubtitles}
+              speakerTranscripts={speakerTranscripts}
+              onExportSpeaker={handleExportSpeaker}
+              canExportProject={!!lastRun}
+              exportableFrameCount={lastRun?.sent.frames.length ?? 0}
+              onExportProject={handleExportProject}
+              onDebug={() => handleDebug()}
+              onAddToBatch={handleAddToBatch}
+              onCancel={handleCancel}
+              onRecover={handleRecover}
             />
           </div>
         </main>
@@ -0,0 +1,160 @@
+import React from 'react';
+import { BatchJob, BatchJobStatus } from '../types';
+import { MAX_BATCH_CONCURRENCY } from '../services/batchQueue';
+import { formatSeconds } from '../utils/formatTime';
+
+type BatchPanelProps = {
+    jobs: BatchJob[];
+    paused: boolean;
+    concurrency: number;
+    onAddFiles: (files: File[]) => void;
+    onPause: () => void;
+    onResume: () => void;
+    onConcurrencyChange: (concurrency: number) => void;
+    onCancel: (id: string) => void;
+    onRetry: (id: string) => void;
+    onRemove: (id: string) => void;
+    onClearFinished: () => void;
+    onExport: (format: 'csv' | 'json') => void;
+    onClose: () => void;
+};
+
+const STATUS_LABELS: Record<BatchJobStatus, string> = {
+    pending: 'En cola',
+    running: 'En curso',
+    done: 'Completado',
+    error: 'Erro',
+    cancelled: 'Cancelado',
+};
+
+const STATUS_CLASSES: Record<BatchJobStatus, string> = {
+    pending: 'text-gray-400',
+    running: 'text-purple-300',
+    done: 'text-green-400',
+    error: 'text-red-400',
+    cancelled: 'text-yellow-400',
+};
+
+const buttonClassName = "py-2 px-4 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+const smallButtonClassName = "py-1 px-2 text-xs bg-gray-700 text-white rounded hover:bg-gray-600 transition-colors";
+
+const BatchPanel: React.FC<BatchPanelProps> = ({
+    jobs, paused, concurrency, onAddFiles, onPause, onResume, onConcurrencyChange,
+    onCancel, onRetry, onRemove, onClearFinished, onExport, onClose,
+}) => {
+    const finished = jobs.filter(job => job.status === 'done').length;
+    const hasResults = jobs.some(job => job.status === 'done' || job.status === 'error');
+
+    const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+        onAddFiles(Array.from(e.target.files ?? []));
+        e.target.value = '';
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+        e.preventDefault();
+        onAddFiles(Array.from(e.dataTransfer.files));
+    };
+
+    return (
+        <div className="bg-gray-800 shadow-2xl rounded-lg p-6 mb-6 space-y-4">
+            <div className="flex justify-between items-center">
+                <h2 className="text-lg font-bold text-white">Cola de traballos</h2>
+                <button onClick={onClose} className={buttonClassName}>Pechar</button>
+            </div>
+            <label
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={handleDrop}
+                className="block border-2 border-dashed border-gray-600 rounded-lg p-4 text-center text-sm text-gray-400 cursor-pointer hover:border-purple-500"
+            >
+                Arrastra aquí varios vídeos ou fai clic para escollelos. Cada vídeo enteiro convértese nun traballo coa configuración actual e o fotograma completo como recorte;
+                para outros intervalos ou recortes usa «Engadir á cola» no editor.
+                <input type="file" accept="video/*" multiple className="hidden" onChange={handleFiles} />
+            </label>
+            <div className="flex flex-wrap items-center gap-2">
+                {paused ? (
+                    <button onClick={onResume} disabled={!jobs.some(job => job.status === 'pending')} className="py-2 px-4 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+                        Procesar
+                    </button>
+                ) : (
+                    <button onClick={onPause} className={buttonClassName}>Pausar</button>
+                )}
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                    Simultáneos
+                    <select
+                        value={concurrency}
+                        onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+                        className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-1.5"
+                    >
+                        {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                            <option key={n} value={n}>{n}</option>
+                        ))}
+                    </select>
+                </label>
+                <span className="text-sm text-gray-500 flex-grow">
+                    {finished} de {jobs.length} completados{!paused && ' · os traballos en curso rematan ao pausar'}
+                </span>
+                <button onClick={() => onExport('csv')} disabled={!hasResults} className={buttonClassName}>CSV</button>
+                <button onClick={() => onExport('json')} disabled={!hasResults} className={buttonClassName}>JSON</button>
+                <button onClick={onClearFinished} disabled={!jobs.some(job => job.status !== 'pending' && job.status !== 'running')} className={buttonClassName}>
+                    Limpar rematados
+                </button>
+            </div>
+            {jobs.length === 0 ? (
+                <p className="text-sm text-gray-400">A cola está baleira.</p>
+            ) : (
+                <div className="max-h-96 overflow-y-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead className="text-gray-400 border-b border-gray-700">
+                            <tr>
+                                <th className="py-2 pr-2">Vídeo</th>
+                                <th className="py-2 pr-2">Intervalo</th>
+                                <th className="py-2 pr-2">Estado</th>
+                                <th className="py-2 pr-2">Transcrición</th>
+                                <th className="py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {jobs.map(job => (
+                                <tr key={job.id} className="border-b border-gray-700 align-top">
+                                    <td className="py-2 pr-2 text-white max-w-[10rem] truncate" title={job.file.name}>{job.file.name}</td>
+                                    <td className="py-2 pr-2 text-gray-400 whitespace-nowrap">
+                                        {formatSeconds(job.settings.timeRange.start)}–{formatSeconds(job.settings.timeRange.end)}
+                                    </td>
+                                    <td className={`py-2 pr-2 ${STATUS_CLASSES[job.status]}`}>
+                                        <p>{STATUS_LABELS[job.status]}</p>
+                                        {job.status === 'running' && (
+                                            <>
+                                                <div className="w-full bg-gray-700 rounded-full h-1.5 mt-1">
+                                                    <div className="bg-purple-500 h-1.5 rounded-full" style={{ width: `${job.progress * 100}%` }}></div>
+                                                </div>
+                                                <p className="text-xs text-gray-500">{job.message}</p>
+                                            </>
+                                        )}
+                                        {job.status === 'error' && <p className="text-xs">{job.message}</p>}
+                                        {job.warning && <p className="text-xs text-yellow-400">{job.warning}</p>}
+                                    </td>
+                                    <td className="py-2 pr-2 text-gray-300">
+                                        {job.result && (job.result.noSpeech ? <span className="italic text-gray-500">Sen fala lexible</span> : job.result.transcript)}
+                                    </td>
+                                    <td className="py-2">
+                                        <div className="flex flex-col gap-1">
+                                            {(job.status === 'pending' || job.status === 'running') && (
+                                                <button onClick={() => onCancel(job.id)} className={smallButtonClassName}>Cancelar</button>
+                                            )}
+                                            {(job.status === 'error' || job.status === 'cancelled') && (
+                                                <button onClick={() => onRetry(job.id)} className={smallButtonClassName}>Reintentar</button>
+                                            )}
+                                            <button onClick={() => onRemove(job.id)} className={`${smallButtonClassName} text-red-300`}>Eliminar</button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BatchPanel;
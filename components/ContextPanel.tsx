@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { ContextHints, ContextPreset } from '../types';
+import { formatHintList, hasContextHints, parseHintList } from '../utils/contextHints';
+
+type ContextPanelProps = {
+    hints: ContextHints;
+    onChange: (hints: ContextHints) => void;
+    presets: ContextPreset[];
+    onPresetsChange: (presets: ContextPreset[]) => void;
+};
+
+type ListField = 'speakers' | 'expectedPhrases' | 'vocabulary';
+
+const LIST_FIELDS: { field: ListField; label: string; placeholder: string }[] = [
+    { field: 'speakers', label: 'Falantes e nomes', placeholder: 'Un por liña' },
+    { field: 'expectedPhrases', label: 'Frases esperadas', placeholder: 'Unha por liña' },
+    { field: 'vocabulary', label: 'Vocabulario específico', placeholder: 'Unha palabra ou termo por liña' },
+];
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block p-1.5";
+const buttonClassName = "px-2 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed";
+
+const ContextPanel: React.FC<ContextPanelProps> = ({ hints, onChange, presets, onPresetsChange }) => {
+    // The lists are edited as raw text so blank lines can be typed; they are parsed on every change.
+    const [drafts, setDrafts] = useState<Record<ListField, string>>(() => ({
+        speakers: formatHintList(hints.speakers),
+        expectedPhrases: formatHintList(hints.expectedPhrases),
+        vocabulary: formatHintList(hints.vocabulary),
+    }));
+    const [presetName, setPresetName] = useState('');
+
+    // Resync the drafts when the hints are replaced from outside (a preset, a restored session).
+    const [syncedHints, setSyncedHints] = useState(hints);
+    if (syncedHints !== hints) {
+        setSyncedHints(hints);
+        const outside = LIST_FIELDS.some(({ field }) => formatHintList(parseHintList(drafts[field])) !== formatHintList(hints[field]));
+        if (outside) {
+            setDrafts({
+                speakers: formatHintList(hints.speakers),
+                expectedPhrases: formatHintList(hints.expectedPhrases),
+                vocabulary: formatHintList(hints.vocabulary),
+            });
+        }
+    }
+
+    const handleListChange = (field: ListField, text: string) => {
+        setDrafts(current => ({ ...current, [field]: text }));
+        onChange({ ...hints, [field]: parseHintList(text) });
+    };
+
+    const handleLoadPreset = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const preset = presets.find(p => p.name === e.target.value);
+        if (!preset) return;
+        setPresetName(preset.name);
+        onChange(preset.hints);
+    };
+
+    const handleSavePreset = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        onPresetsChange([...presets.filter(p => p.name !== name), { name, hints }].sort((a, b) => a.name.localeCompare(b.name)));
+    };
+
+    const handleDeletePreset = () => {
+        onPresetsChange(presets.filter(p => p.name !== presetName.trim()));
+        setPresetName('');
+    };
+
+    return (
+        <div className="bg-gray-900 rounded-lg p-3 space-y-2 text-sm">
+            <p className="font-medium text-gray-400">Contexto {!hasContextHints(hints) && <span className="text-gray-500">(ningún)</span>}</p>
+            <label className="block space-y-1">
+                <span className="text-gray-400">Tema</span>
+                <input
+                    type="text"
+                    value={hints.topic}
+                    onChange={(e) => onChange({ ...hints, topic: e.target.value })}
+                    placeholder="p. ex. pleno municipal sobre o orzamento"
+                    className={inputClassName}
+                />
+            </label>
+            {LIST_FIELDS.map(({ field, label, placeholder }) => (
+                <label key={field} className="block space-y-1">
+                    <span className="text-gray-400">{label}</span>
+                    <textarea
+                        value={drafts[field]}
+                        onChange={(e) => handleListChange(field, e.target.value)}
+                        placeholder={placeholder}
+                        rows={2}
+                        className={inputClassName}
+                    />
+                </label>
+            ))}
+            <div className="flex items-center gap-2">
+                {presets.length > 0 && (
+                    <select value="" onChange={handleLoadPreset} className={`${inputClassName} !w-auto`}>
+                        <option value="">Cargar contexto...</option>
+                        {presets.map(preset => (
+                            <option key={preset.name} value={preset.name}>{preset.name}</option>
+                        ))}
+                    </select>
+                )}
+                <input
+                    type="text"
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    placeholder="Nome do contexto"
+                    className={`${inputClassName} flex-grow`}
+                />
+                <button onClick={handleSavePreset} disabled={!presetName.trim() || !hasContextHints(hints)} className={buttonClassName}>Gardar</button>
+                <button onClick={handleDeletePreset} disabled={!presets.some(p => p.name === presetName.trim())} className={buttonClassName}>Borrar</button>
+            </div>
+        </div>
+    );
+};
+
+export default ContextPanel;
@@ -1,27 +1,103 @@
 import React from 'react';
-import { Status, Stage } from '../types';
+import { ContextHints, ContextPreset, CostEstimate, EnsembleHypothesis, FramePacking, PreprocessingStep, RecoveryAction, SpeakerTranscript, SpeechSource, Status, Stage, TranscriptionResult, TranscriptSegment, SpendingBudget, UsageSummary } from '../types';
 import { CopyIcon, PlayIcon, StopIcon, LoadingSpinnerIcon, CropIcon, ScissorsIcon } from './Icons';
+import { formatTime } from '../utils/formatTime';
+import { SubtitleFormat } from '../utils/subtitles';
+import { alignTranscriptWords, formatTranscription, LOW_CONFIDENCE } from '../services/transcriptionResult';
+import { ENSEMBLE_SIZES } from '../services/ensemble';
+import { RECOVERY_ACTION_LABELS } from '../utils/errors';
+import PreprocessingPanel from './PreprocessingPanel';
+import ContextPanel from './ContextPanel';
+import CostPanel from './CostPanel';
+import LanguageSelect from './LanguageSelect';
+import { formatCost } from '../services/costEstimate';
+import { translationLanguage } from '../services/prompt';
+import { languageName, TRANSLATION_TARGETS } from '../utils/languages';
 
 type ControlsAndResultsProps = {
     currentStage: Stage;
     status: Status;
-    transcription: string;
-    isPlayingAudio: boolean;
+    result: TranscriptionResult | null;
+    /** Which text is being read aloud, if any. */
+    playingAudio: SpeechSource | null;
     isProcessing: boolean;
     canTranscribe: boolean;
     language: string;
+    trackingEnabled: boolean;
+    onTrackingChange: (enabled: boolean) => void;
+    longFormEnabled: boolean;
+    onLongFormChange: (enabled: boolean) => void;
+    motionSelectionEnabled: boolean;
+    onMotionSelectionChange: (enabled: boolean) => void;
+    framePacking: FramePacking;
+    onFramePackingChange: (packing: FramePacking) => void;
+    ensembleSize: number;
+    onEnsembleSizeChange: (size: number) => void;
+    hypotheses: EnsembleHypothesis[];
+    preprocessingChain: PreprocessingStep[];
+    onPreprocessingChange: (chain: PreprocessingStep[]) => void;
+    contextHints: ContextHints;
+    onContextHintsChange: (hints: ContextHints) => void;
+    contextPresets: ContextPreset[];
+    onContextPresetsChange: (presets: ContextPreset[]) => void;
+    costEstimate: CostEstimate | null;
+    model: string;
+    budget: SpendingBudget;
+    onBudgetChange: (budget: SpendingBudget) => void;
+    sessionSpent: number;
+    dailySpent: number;
+    /** Tokens billed over the last run; null before any. */
+    lastUsage: UsageSummary | null;
+    segments: TranscriptSegment[];
     onLanguageChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+    /** English name of the language to translate into, 'none' or 'auto'. */
+    translationTarget: string;
+    onTranslationTargetChange: (target: string) => void;
     onSetStage: (stage: Stage) => void;
     onTranscribe: () => void;
-    onPlayAudio: () => void;
+    onPlayAudio: (speech: SpeechSource) => void;
     onCopy: () => void;
+    onExportSubtitles: (format: SubtitleFormat) => void;
+    /** Each speaker's own transcription when the result is a multi-speaker dialogue. */
+    speakerTranscripts: SpeakerTranscript[];
+    onExportSpeaker: (index: number, format: SubtitleFormat | 'txt') => void;
+    canExportProject: boolean;
+    exportableFrameCount: number;
+    onExportProject: (includeFrames: boolean) => void;
     onDebug: () => void;
+    onAddToBatch: () => void;
+    onCancel: () => void;
+    onRecover: (action: RecoveryAction) => void;
 };
 
 const ControlsAndResults: React.FC<ControlsAndResultsProps> = ({ 
-    currentStage, status, transcription, isPlayingAudio, isProcessing, canTranscribe,
-    language, onLanguageChange, onSetStage, onTranscribe, onPlayAudio, onCopy, onDebug
+    currentStage, status, result, playingAudio, isProcessing, canTranscribe,
+    language, trackingEnabled, onTrackingChange,
+    longFormEnabled, onLongFormChange, motionSelectionEnabled, onMotionSelectionChange,
+    framePacking, onFramePackingChange, ensembleSize, onEnsembleSizeChange, hypotheses, preprocessingChain, onPreprocessingChange,
+    contextHints, onContextHintsChange, contextPresets, onContextPresetsChange,
+    costEstimate, model, budget, onBudgetChange, sessionSpent, dailySpent, lastUsage, segments, onLanguageChange, translationTarget, onTranslationTargetChange, onSetStage, onTranscribe, onPlayAudio, onCopy, onExportSubtitles,
+    speakerTranscripts, onExportSpeaker, canExportProject, exportableFrameCount, onExportProject, onDebug, onAddToBatch, onCancel, onRecover
 }) => {
+    const confidenceLabel = hypotheses.length > 0 ? 'Acordo' : 'Confianza';
+    const translatedInto = translationLanguage(translationTarget);
+
+    const speechButton = (speech: SpeechSource) => (
+        <button
+          onClick={() => onPlayAudio(speech)}
+          title={playingAudio === speech ? "Parar" : "Ler en voz alta"}
+          className="p-2 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors"
+          disabled={status.stage === 'generating_audio'}
+        >
+          {status.stage === 'generating_audio' ? (
+              <LoadingSpinnerIcon className="w-5 h-5" />
+          ) : playingAudio === speech ? (
+              <StopIcon className="w-5 h-5" />
+          ) : (
+              <PlayIcon className="w-5 h-5" />
+          )}
+        </button>
+    );
     return (
         <div className="flex flex-col space-y-4">
            {currentStage === 'preview' && (
@@ -44,28 +120,88 @@ const ControlsAndResults: React.FC<ControlsAndResultsProps> = ({
               </div>
               <div>
                 <label htmlFor="language-select" className="block text-sm font-medium text-gray-400 mb-1">Seleccionar Idioma</label>
+                <LanguageSelect id="language-select" value={language} onChange={onLanguageChange} />
+              </div>
+              <div>
+                <label htmlFor="translation-select" className="block text-sm font-medium text-gray-400 mb-1">Traducir a</label>
+                <LanguageSelect
+                  id="translation-select"
+                  value={translationTarget}
+                  onChange={(e) => onTranslationTargetChange(e.target.value)}
+                  options={TRANSLATION_TARGETS}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={trackingEnabled}
+                  onChange={(e) => onTrackingChange(e.target.checked)}
+                  className="accent-purple-500"
+                />
+                <span>Seguimento automático da boca (revisable en Depurar Fotogramas)</span>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={longFormEnabled}
+                  onChange={(e) => onLongFormChange(e.target.checked)}
+                  className="accent-purple-500"
+                />
+                <span>Modo vídeo longo (transcribe por tramos de 3 s con solapamento)</span>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={motionSelectionEnabled}
+                  onChange={(e) => onMotionSelectionChange(e.target.checked)}
+                  className="accent-purple-500"
+                />
+                <span>Selección por movemento (descarta fotogramas repetidos e densifica onde se articula)</span>
+              </label>
+              <div>
+                <label htmlFor="packing-select" className="block text-sm font-medium text-gray-400 mb-1">Envío dos fotogramas</label>
+                <select
+                  id="packing-select"
+                  value={framePacking}
+                  onChange={(e) => onFramePackingChange(e.target.value as FramePacking)}
+                  className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block p-2.5"
+                >
+                  <option value="frames">Unha imaxe por fotograma</option>
+                  <option value="grid-3x3">Follas de contacto 3×3</option>
+                  <option value="grid-4x4">Follas de contacto 4×4</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="ensemble-select" className="block text-sm font-medium text-gray-400 mb-1">Pasadas de transcrición</label>
                 <select
-                  id="language-select"
-                  value={language}
-                  onChange={onLanguageChange}
+                  id="ensemble-select"
+                  value={ensembleSize}
+                  onChange={(e) => onEnsembleSizeChange(Number(e.target.value))}
                   className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block p-2.5"
                 >
-                  <option value="auto">Autodetectar (menos preciso)</option>
-                  <option value="English">Inglés</option>
-                  <option value="Spanish">Castelán</option>
-                  <option value="Galician">Galego</option>
-                  <option value="French">Francés</option>
-                  <option value="German">Alemán</option>
-                  <option value="Italian">Italiano</option>
-                  <option value="Portuguese">Portugués</option>
-                  <option value="Mandarin Chinese">Mandarín</option>
-                  <option value="Japanese">Xaponés</option>
-                  <option value="Korean">Coreano</option>
-                  <option value="Russian">Ruso</option>
-                  <option value="Arabic">Árabe</option>
-                  <option value="Hindi">Hindi</option>
+                  <option value={1}>Unha (sen votación)</option>
+                  {ENSEMBLE_SIZES.map(size => (
+                    <option key={size} value={size}>{size} hipóteses con votación por consenso</option>
+                  ))}
                 </select>
               </div>
+              <PreprocessingPanel chain={preprocessingChain} onChange={onPreprocessingChange} />
+              <ContextPanel hints={contextHints} onChange={onContextHintsChange} presets={contextPresets} onPresetsChange={onContextPresetsChange} />
+              <CostPanel
+                estimate={costEstimate}
+                model={model}
+                budget={budget}
+                onBudgetChange={onBudgetChange}
+                sessionSpent={sessionSpent}
+                dailySpent={dailySpent}
+              />
+              <button
+                onClick={onAddToBatch}
+                disabled={!canTranscribe}
+                className="w-full py-2 px-4 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              >
+                Engadir á cola
+              </button>
             </>
           )}
 
@@ -86,10 +222,31 @@ const ControlsAndResults: React.FC<ControlsAndResultsProps> = ({
               <span>Depurar Fotogramas</span>
             </button>
           </div>
+           {(isProcessing || status.stage === 'generating_audio') && (
+            <button
+              onClick={onCancel}
+              className="w-full py-2 px-4 bg-red-700 text-white font-semibold rounded-lg hover:bg-red-800 transition-colors"
+            >
+              Cancelar
+            </button>
+           )}
            <p className="text-sm text-gray-500 text-center -mt-2">
              {status.stage !== 'processing' ? status.message : ''}
            </p>
 
+          {status.retry && (isProcessing || status.stage === 'generating_audio') && (
+            <p className="text-sm text-yellow-400 text-center">
+              Reintento {status.retry.attempt} de {status.retry.maxRetries} en {status.retry.delaySeconds} s ({status.retry.reason})
+            </p>
+          )}
+
+          {lastUsage && lastUsage.requests > 0 && (
+            <p className="text-xs text-gray-500 text-center">
+              Uso real: {lastUsage.requests} {lastUsage.requests === 1 ? 'petición' : 'peticións'}, {lastUsage.inputTokens.toLocaleString()} tokens de entrada e {lastUsage.outputTokens.toLocaleString()} de saída
+              {lastUsage.cost !== null && ` (${formatCost(lastUsage.cost)})`}
+            </p>
+          )}
+
           {status.stage === 'processing' && status.progress !== undefined && (
             <div className="w-full bg-gray-700 rounded-full h-2.5">
               <div className="bg-purple-500 h-2.5 rounded-full" style={{ width: `${status.progress * 100}%` }}></div>
@@ -97,40 +254,141 @@ const ControlsAndResults: React.FC<ControlsAndResultsProps> = ({
           )}
 
           {status.stage === 'error' && (
-              <p className="text-red-400 text-center">{status.message}</p>
+            <div className="space-y-2 text-center">
+              <p className="text-red-400">{status.message}</p>
+              {status.error?.hint && <p className="text-sm text-gray-400">{status.error.hint}</p>}
+              {status.error && status.error.actions.length > 0 && (
+                <div className="flex flex-wrap justify-center gap-2">
+                  {status.error.actions.map(action => (
+                    <button
+                      key={action}
+                      onClick={() => onRecover(action)}
+                      className="px-3 py-1 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      {RECOVERY_ACTION_LABELS[action]}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
           )}
 
           <div className="flex-grow bg-gray-900 rounded-lg p-4 relative min-h-[200px] lg:min-h-0">
-            <p className="text-sm font-medium text-gray-400 mb-2">Transcrición:</p>
-            <textarea
-              readOnly
-              value={transcription}
-              placeholder="A transcrición aparecerá aquí..."
-              className="w-full h-full bg-transparent border-none text-gray-300 resize-none focus:ring-0"
-              rows={8}
-            />
-            {transcription && (
+            <p className="text-sm font-medium text-gray-400 mb-2">
+              {speakerTranscripts.length > 0 ? 'Diálogo:' : hypotheses.length > 0 ? 'Transcrición de consenso:' : 'Transcrición:'}
+              {result?.detectedLanguage && <span className="ml-2 text-xs text-gray-500">({result.detectedLanguage})</span>}
+            </p>
+            {!result && <p className="text-gray-500">A transcrición aparecerá aquí...</p>}
+            {result?.noSpeech && <p className="text-gray-400 italic">Non se detectou fala lexible.</p>}
+            {result && !result.noSpeech && (
+              <div className="space-y-3 pr-20">
+                <p className="text-gray-300 whitespace-pre-wrap">
+                  {alignTranscriptWords(result.transcript, result.words).map(({ token, word }, index) =>
+                    word && word.confidence < LOW_CONFIDENCE ? (
+                      <mark
+                        key={index}
+                        title={`${confidenceLabel} ${Math.round(word.confidence * 100)}% · fotogramas ${word.startFrame}–${word.endFrame}`}
+                        className="bg-yellow-500/30 text-yellow-200 rounded px-0.5"
+                      >
+                        {token}
+                      </mark>
+                    ) : (
+                      <span key={index} title={word ? `${confidenceLabel} ${Math.round(word.confidence * 100)}%` : undefined}>{token}</span>
+                    )
+                  )}
+                </p>
+                {result.words.some(word => word.confidence < LOW_CONFIDENCE) && (
+                  <p className="text-xs text-gray-500">
+                    {hypotheses.length > 0
+                      ? `As palabras resaltadas coinciden en menos da metade das ${hypotheses.length} hipóteses.`
+                      : `As palabras resaltadas teñen pouca confianza (< ${Math.round(LOW_CONFIDENCE * 100)}%).`}
+                  </p>
+                )}
+              </div>
+            )}
+            {result && !result.noSpeech && (
               <div className="absolute top-2 right-2 flex gap-2">
                 <button onClick={onCopy} title="Copiar ao portapapeis" className="p-2 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors">
                   <CopyIcon className="w-5 h-5" />
                 </button>
-                <button 
-                  onClick={onPlayAudio}
-                  title={isPlayingAudio ? "Parar" : "Ler en voz alta"}
-                  className="p-2 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors"
-                  disabled={status.stage === 'generating_audio'}
-                >
-                  {status.stage === 'generating_audio' ? (
-                      <LoadingSpinnerIcon className="w-5 h-5" />
-                  ) : isPlayingAudio ? (
-                      <StopIcon className="w-5 h-5" />
-                  ) : (
-                      <PlayIcon className="w-5 h-5" />
-                  )}
-                </button>
+                {speechButton('transcript')}
               </div>
             )}
           </div>
+          {result?.translation && !result.noSpeech && (
+            <div className="bg-gray-900 rounded-lg p-4 relative">
+              <p className="text-sm font-medium text-gray-400 mb-2">
+                Tradución{translatedInto && ` (${languageName(translatedInto)})`}:
+              </p>
+              <p className="text-gray-300 whitespace-pre-wrap pr-12">{result.translation}</p>
+              <div className="absolute top-2 right-2">
+                {speechButton('translation')}
+              </div>
+            </div>
+          )}
+          {hypotheses.length > 0 && (
+            <div className="bg-gray-900 rounded-lg p-4">
+              <p className="text-sm font-medium text-gray-400 mb-2">Hipóteses alternativas:</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {hypotheses.map((hypothesis, index) => (
+                  <div key={index} className="bg-gray-800 rounded-lg p-2 text-sm">
+                    <p className="text-xs font-semibold text-purple-300 mb-1">{index + 1}. {hypothesis.label}</p>
+                    <p className="text-gray-300 whitespace-pre-wrap">{formatTranscription(hypothesis.result, translatedInto)}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {segments.length > 0 && (
+            <div className="flex items-center justify-end gap-2 text-sm">
+              <span className="text-gray-400">Exportar subtítulos:</span>
+              <button onClick={() => onExportSubtitles('srt')} className="py-1 px-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">.srt</button>
+              <button onClick={() => onExportSubtitles('vtt')} className="py-1 px-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">.vtt</button>
+            </div>
+          )}
+
+          {speakerTranscripts.map((transcript, index) => (
+            <div key={index} className="flex items-center justify-end gap-2 text-sm">
+              <span className="text-gray-400">Exportar só {transcript.label}:</span>
+              <button onClick={() => onExportSpeaker(index, 'txt')} className="py-1 px-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">.txt</button>
+              {transcript.segments.length > 0 && (
+                <>
+                  <button onClick={() => onExportSpeaker(index, 'srt')} className="py-1 px-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">.srt</button>
+                  <button onClick={() => onExportSpeaker(index, 'vtt')} className="py-1 px-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">.vtt</button>
+                </>
+              )}
+            </div>
+          ))}
+
+          {canExportProject && (
+            <div className="flex items-center justify-end gap-2 text-sm">
+              <span className="text-gray-400">Exportar proxecto:</span>
+              <button onClick={() => onExportProject(false)} className="py-1 px-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">.json</button>
+              <button
+                onClick={() => onExportProject(true)}
+                disabled={exportableFrameCount === 0}
+                title={`Inclúe os ${exportableFrameCount} fotogramas enviados ao modelo`}
+                className="py-1 px-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                .zip + fotogramas
+              </button>
+            </div>
+          )}
+
+          {segments.length > 1 && (
+            <div className="bg-gray-900 rounded-lg p-4 max-h-60 overflow-y-auto">
+              <p className="text-sm font-medium text-gray-400 mb-2">Segmentos:</p>
+              <ul className="space-y-1 text-sm">
+                {segments.map((segment, index) => (
+                  <li key={index} className="flex gap-3">
+                    <span className="font-mono text-xs text-purple-300 whitespace-nowrap pt-0.5">{formatTime(segment.start)} – {formatTime(segment.end)}</span>
+                    <span className="text-gray-300">{segment.text}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
            <p className="text-xs text-gray-500 text-center pt-2">
              Nota: A lectura de beizos por IA é unha tecnoloxía experimental. Os resultados dependen da calidade do vídeo, a iluminación e a claridade do falante. Para mellores resultados, mantén os clips por debaixo de 3 segundos e recorta preto dos beizos.
            </p>
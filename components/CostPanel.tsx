@@ -0,0 +1,72 @@
+import React from 'react';
+import { CostEstimate, SpendingBudget } from '../types';
+import { findExceededLimit, formatCost } from '../services/costEstimate';
+
+type CostPanelProps = {
+    estimate: CostEstimate | null;
+    model: string;
+    budget: SpendingBudget;
+    onBudgetChange: (budget: SpendingBudget) => void;
+    sessionSpent: number;
+    dailySpent: number;
+};
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block p-1.5";
+
+const formatBytes = (bytes: number) =>
+    bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const CostPanel: React.FC<CostPanelProps> = ({ estimate, model, budget, onBudgetChange, sessionSpent, dailySpent }) => {
+    const exceeded = estimate?.cost ? findExceededLimit(budget, estimate.cost, sessionSpent, dailySpent) : null;
+
+    const updateLimit = (field: 'sessionLimit' | 'dailyLimit') => (e: React.ChangeEvent<HTMLInputElement>) => {
+        onBudgetChange({ ...budget, [field]: Math.max(0, Number(e.target.value) || 0) });
+    };
+
+    return (
+        <div className="bg-gray-900 rounded-lg p-3 space-y-2 text-sm">
+            <p className="font-medium text-gray-400">Custo estimado <span className="text-gray-500">({model})</span></p>
+            {estimate && (
+                <>
+                    <p className="text-gray-300">
+                        {estimate.requests} {estimate.requests === 1 ? 'petición' : 'peticións'} · {estimate.images} imaxes · {formatBytes(estimate.payloadBytes)}
+                        {' · '}~{estimate.inputTokens.toLocaleString()} tokens de entrada e ~{estimate.outputTokens.toLocaleString()} de saída
+                    </p>
+                    <p className="text-gray-300">
+                        {estimate.cost === null ? 'Prezo descoñecido para este modelo.' : `Prezo aproximado: ${formatCost(estimate.cost)}`}
+                    </p>
+                </>
+            )}
+            {exceeded && (
+                <p className="text-yellow-400">
+                    {exceeded} {budget.mode === 'block' ? 'A transcrición bloquearase.' : 'Pedirase confirmación.'}
+                </p>
+            )}
+            <p className="text-gray-500">Gastado: {formatCost(sessionSpent)} nesta sesión, {formatCost(dailySpent)} hoxe.</p>
+            <div className="grid grid-cols-3 gap-2">
+                <label className="block space-y-1">
+                    <span className="text-gray-400">Límite da sesión ($)</span>
+                    <input type="number" min={0} step={0.1} value={budget.sessionLimit} onChange={updateLimit('sessionLimit')} className={inputClassName} />
+                </label>
+                <label className="block space-y-1">
+                    <span className="text-gray-400">Límite diario ($)</span>
+                    <input type="number" min={0} step={0.1} value={budget.dailyLimit} onChange={updateLimit('dailyLimit')} className={inputClassName} />
+                </label>
+                <label className="block space-y-1">
+                    <span className="text-gray-400">Ao superalo</span>
+                    <select
+                        value={budget.mode}
+                        onChange={(e) => onBudgetChange({ ...budget, mode: e.target.value as SpendingBudget['mode'] })}
+                        className={inputClassName}
+                    >
+                        <option value="warn">Avisar</option>
+                        <option value="block">Bloquear</option>
+                    </select>
+                </label>
+            </div>
+            <p className="text-xs text-gray-500">0 = sen límite. Prezos de referencia por millón de tokens; a factura real pode variar.</p>
+        </div>
+    );
+};
+
+export default CostPanel;
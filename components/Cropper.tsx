@@ -1,17 +1,20 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { CropArea, TimeRange } from '../types';
+import { CropArea, CropKeyframe, Speaker, TimeRange } from '../types';
 import { PlayIcon, StopIcon } from './Icons';
 import { formatTime } from '../utils/formatTime';
+import { interpolateCrop, sortKeyframes, upsertKeyframe, KEYFRAME_TIME_TOLERANCE } from '../utils/crop';
+import { speakerLabel } from '../services/dialogue';
 
 type CropperProps = {
     videoUrl: string;
     timeRange: TimeRange;
-    initialCropArea: CropArea | null;
-    onCropConfirm: (crop: CropArea) => void;
+    /** One entry per speaker; a single one is the usual one-person crop. */
+    initialSpeakers: Speaker[];
+    onCropConfirm: (speakers: Speaker[]) => void;
     onCancel: () => void;
 };
 
-const Cropper: React.FC<CropperProps> = ({ videoUrl, timeRange, initialCropArea, onCropConfirm, onCancel }) => {
+const Cropper: React.FC<CropperProps> = ({ videoUrl, timeRange, initialSpeakers, onCropConfirm, onCancel }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const [cropBox, setCropBox] = useState({ x: 0, y: 0, width: 0, height: 0 });
@@ -20,6 +23,15 @@ const Cropper: React.FC<CropperProps> = ({ videoUrl, timeRange, initialCropArea,
     const [isPlaying, setIsPlaying] = useState(false);
     const dragInfo = useRef({ active: false, type: '', startX: 0, startY: 0, startBox: { ...cropBox } });
     const initialCropSetRef = useRef(false);
+    const [speakers, setSpeakers] = useState<Speaker[]>(() =>
+        initialSpeakers.map(speaker => ({ ...speaker, cropKeyframes: sortKeyframes(speaker.cropKeyframes) })));
+    // The speaker whose crop the box edits.
+    const [activeSpeaker, setActiveSpeaker] = useState(0);
+    const keyframes = speakers[activeSpeaker].cropKeyframes;
+    const setKeyframes = (update: (prev: CropKeyframe[]) => CropKeyframe[]) =>
+        setSpeakers(prev => prev.map((speaker, i) => (i === activeSpeaker ? { ...speaker, cropKeyframes: update(speaker.cropKeyframes) } : speaker)));
+    // True when the box was moved by hand since it last matched a keyframe.
+    const boxEditedRef = useRef(false);
 
     useEffect(() => {
         if(videoRef.current) {
@@ -76,38 +88,57 @@ const Cropper: React.FC<CropperProps> = ({ videoUrl, timeRange, initialCropArea,
         }
     }, []);
 
+    const toScreenBox = useCallback((crop: CropArea) => {
+        const video = videoRef.current;
+        if (!video || !video.videoWidth || videoGeom.renderWidth === 0) return null;
+        const scaleX = videoGeom.renderWidth / video.videoWidth;
+        const scaleY = videoGeom.renderHeight / video.videoHeight;
+
+        return {
+            x: (crop.x * scaleX) + videoGeom.xOffset,
+            y: (crop.y * scaleY) + videoGeom.yOffset,
+            width: crop.width * scaleX,
+            height: crop.height * scaleY,
+        };
+    }, [videoGeom]);
+
+    // A centred box, for a crop that has no keyframes yet.
+    const defaultBox = () => {
+        const initialWidth = Math.min(200, videoGeom.renderWidth * 0.8);
+        const initialHeight = Math.min(100, videoGeom.renderHeight * 0.5);
+        return {
+            x: videoGeom.xOffset + (videoGeom.renderWidth - initialWidth) / 2,
+            y: videoGeom.yOffset + (videoGeom.renderHeight - initialHeight) / 2,
+            width: initialWidth,
+            height: initialHeight
+        };
+    };
+
     useEffect(() => {
         const video = videoRef.current;
         if (videoGeom.renderWidth > 0 && video && video.videoWidth > 0 && !initialCropSetRef.current) {
-            if (initialCropArea && initialCropArea.width > 0) {
-                const scaleX = videoGeom.renderWidth / video.videoWidth;
-                const scaleY = videoGeom.renderHeight / video.videoHeight;
-
-                setCropBox({
-                    x: (initialCropArea.x * scaleX) + videoGeom.xOffset,
-                    y: (initialCropArea.y * scaleY) + videoGeom.yOffset,
-                    width: initialCropArea.width * scaleX,
-                    height: initialCropArea.height * scaleY,
-                });
-            } else {
-                const initialWidth = Math.min(200, videoGeom.renderWidth * 0.8);
-                const initialHeight = Math.min(100, videoGeom.renderHeight * 0.5);
-                setCropBox({
-                    x: videoGeom.xOffset + (videoGeom.renderWidth - initialWidth) / 2,
-                    y: videoGeom.yOffset + (videoGeom.renderHeight - initialHeight) / 2,
-                    width: initialWidth,
-                    height: initialHeight
-                });
-            }
+            const initialBox = keyframes.length > 0 ? toScreenBox(interpolateCrop(keyframes, timeRange.start)) : null;
+            setCropBox(initialBox && initialBox.width > 0 ? initialBox : defaultBox());
             initialCropSetRef.current = true;
         }
-    }, [videoGeom, initialCropArea, videoRef]);
+    }, [videoGeom, keyframes, videoRef, toScreenBox, timeRange.start]);
+
+
+    const followKeyframes = (time: number, source: CropKeyframe[] = keyframes) => {
+        if (source.length === 0 || dragInfo.current.active) return;
+        const box = toScreenBox(interpolateCrop(source, time));
+        if (box) {
+            setCropBox(box);
+            boxEditedRef.current = false;
+        }
+    };
 
 
     const handleTimeUpdate = () => {
         if (!videoRef.current) return;
         const time = videoRef.current.currentTime;
         setCurrentTime(time);
+        followKeyframes(time);
         if (isPlaying && time >= timeRange.end) {
             videoRef.current.pause();
             setIsPlaying(false);
@@ -131,6 +162,15 @@ const Cropper: React.FC<CropperProps> = ({ videoUrl, timeRange, initialCropArea,
         const newTime = parseFloat(e.target.value);
         setCurrentTime(newTime);
         videoRef.current.currentTime = newTime;
+        followKeyframes(newTime);
+    };
+
+    const seekTo = (time: number) => {
+        if (!videoRef.current) return;
+        videoRef.current.pause();
+        videoRef.current.currentTime = time;
+        setCurrentTime(time);
+        followKeyframes(time);
     };
 
     const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>, type: string) => {
@@ -143,6 +183,7 @@ const Cropper: React.FC<CropperProps> = ({ videoUrl, timeRange, initialCropArea,
             startY: e.clientY,
             startBox: { ...cropBox },
         };
+        boxEditedRef.current = true;
     };
 
     const handleMouseMove = useCallback((e: MouseEvent) => {
@@ -220,8 +261,8 @@ const Cropper: React.FC<CropperProps> = ({ videoUrl, timeRange, initialCropArea,
         };
     }, [handleMouseMove, handleMouseUp]);
 
-    const handleConfirm = () => {
-        if (!videoRef.current || videoGeom.renderWidth === 0) return;
+    const toNaturalCrop = (box: typeof cropBox): CropArea | null => {
+        if (!videoRef.current || videoGeom.renderWidth === 0) return null;
         const video = videoRef.current;
         const { videoWidth, videoHeight } = video;
 
@@ -229,10 +270,10 @@ const Cropper: React.FC<CropperProps> = ({ videoUrl, timeRange, initialCropArea,
         const scaleY = videoHeight / videoGeom.renderHeight;
 
         // Calculate initial natural coordinates from screen coordinates
-        let natX = (cropBox.x - videoGeom.xOffset) * scaleX;
-        let natY = (cropBox.y - videoGeom.yOffset) * scaleY;
-        let natWidth = cropBox.width * scaleX;
-        let natHeight = cropBox.height * scaleY;
+        let natX = (box.x - videoGeom.xOffset) * scaleX;
+        let natY = (box.y - videoGeom.yOffset) * scaleY;
+        let natWidth = box.width * scaleX;
+        let natHeight = box.height * scaleY;
 
         // Clamp coordinates to be strictly within video dimensions
         natX = Math.max(0, natX);
@@ -250,20 +291,102 @@ const Cropper: React.FC<CropperProps> = ({ videoUrl, timeRange, initialCropArea,
         natWidth = Math.max(0, natWidth);
         natHeight = Math.max(0, natHeight);
 
-        const finalCrop = {
+        return {
             x: Math.round(natX),
             y: Math.round(natY),
             width: Math.round(natWidth),
             height: Math.round(natHeight),
         };
-        
-        onCropConfirm(finalCrop);
     };
 
+    const activeKeyframe = keyframes.find(k => Math.abs(k.time - currentTime) <= KEYFRAME_TIME_TOLERANCE);
+
+    const handleSetKeyframe = () => {
+        const crop = toNaturalCrop(cropBox);
+        if (!crop) return;
+        setKeyframes(prev => upsertKeyframe(prev, { time: activeKeyframe?.time ?? currentTime, crop }));
+        boxEditedRef.current = false;
+    };
+
+    const handleDeleteKeyframe = () => {
+        if (!activeKeyframe) return;
+        const remaining = keyframes.filter(k => k !== activeKeyframe);
+        setKeyframes(() => remaining);
+        followKeyframes(currentTime, remaining);
+    };
+
+    // The speakers with the box of the active one kept: a box moved by hand but not saved as a
+    // keyframe is still what the user sees.
+    const commitBox = (): Speaker[] | null => {
+        const crop = toNaturalCrop(cropBox);
+        if (!crop) return null;
+
+        let finalKeyframes = keyframes;
+        if (finalKeyframes.length === 0) {
+            finalKeyframes = [{ time: timeRange.start, crop }];
+        } else if (boxEditedRef.current) {
+            finalKeyframes = upsertKeyframe(finalKeyframes, { time: activeKeyframe?.time ?? currentTime, crop });
+        }
+        return speakers.map((speaker, i) => (i === activeSpeaker ? { ...speaker, cropKeyframes: finalKeyframes } : speaker));
+    };
+
+    const switchSpeaker = (next: Speaker[], index: number) => {
+        setSpeakers(next);
+        setActiveSpeaker(index);
+        const source = next[index].cropKeyframes;
+        const box = source.length > 0 ? toScreenBox(interpolateCrop(source, currentTime)) : null;
+        setCropBox(box ?? defaultBox());
+        // A new speaker's default box counts as edited, so it is kept even without a keyframe.
+        boxEditedRef.current = !box;
+    };
+
+    const handleSelectSpeaker = (index: number) => {
+        if (index === activeSpeaker) return;
+        const committed = commitBox();
+        if (committed) switchSpeaker(committed, index);
+    };
+
+    const handleAddSpeaker = () => {
+        const committed = commitBox();
+        if (!committed) return;
+        switchSpeaker([...committed, { label: speakerLabel(committed.length), cropKeyframes: [] }], committed.length);
+    };
+
+    const handleRemoveSpeaker = () => {
+        if (speakers.length <= 1) return;
+        switchSpeaker(speakers.filter((_, i) => i !== activeSpeaker), 0);
+    };
+
+    const handleLabelChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const label = e.target.value;
+        setSpeakers(prev => prev.map((speaker, i) => (i === activeSpeaker ? { ...speaker, label } : speaker)));
+    };
+
+    const handleConfirm = () => {
+        const committed = commitBox();
+        if (!committed) return;
+        onCropConfirm(committed.map((speaker, i) => ({ ...speaker, label: speaker.label.trim() || speakerLabel(i) })));
+    };
+
+    const rangeDuration = timeRange.end - timeRange.start;
+
     return (
         <div className="bg-black rounded-lg overflow-hidden relative flex flex-col h-full">
             <div ref={containerRef} className="relative w-full flex-grow flex items-center justify-center">
                 <video ref={videoRef} src={videoUrl} className="max-w-full max-h-full object-contain" onTimeUpdate={handleTimeUpdate} onPlay={() => setIsPlaying(true)} onPause={() => setIsPlaying(false)} muted loop />
+                {speakers.map((speaker, i) => {
+                    const box = i !== activeSpeaker && speaker.cropKeyframes.length > 0 ? toScreenBox(interpolateCrop(speaker.cropKeyframes, currentTime)) : null;
+                    return box && (
+                        <div
+                            key={i}
+                            className="absolute border border-gray-300/70 cursor-pointer"
+                            style={{ left: `${box.x}px`, top: `${box.y}px`, width: `${box.width}px`, height: `${box.height}px` }}
+                            onClick={() => handleSelectSpeaker(i)}
+                        >
+                            <span className="absolute -top-5 left-0 text-xs text-gray-200 bg-black/60 px-1 rounded whitespace-nowrap">{speaker.label}</span>
+                        </div>
+                    );
+                })}
                 <div
                     className="absolute border-2 border-dashed border-purple-400 cursor-move bg-black/20"
                     style={{ 
@@ -275,6 +398,9 @@ const Cropper: React.FC<CropperProps> = ({ videoUrl, timeRange, initialCropArea,
                     }}
                     onMouseDown={(e) => handleMouseDown(e, 'move')}
                 >
+                    {speakers.length > 1 && (
+                        <span className="absolute -top-5 left-0 text-xs text-purple-200 bg-black/60 px-1 rounded whitespace-nowrap">{speakers[activeSpeaker].label}</span>
+                    )}
                     <div className="absolute -top-1.5 -left-1.5 w-3 h-3 bg-purple-400 rounded-full cursor-nwse-resize" onMouseDown={(e) => handleMouseDown(e, 'top-left')} />
                     <div className="absolute -top-1.5 -right-1.5 w-3 h-3 bg-purple-400 rounded-full cursor-nesw-resize" onMouseDown={(e) => handleMouseDown(e, 'top-right')} />
                     <div className="absolute -bottom-1.5 -left-1.5 w-3 h-3 bg-purple-400 rounded-full cursor-nesw-resize" onMouseDown={(e) => handleMouseDown(e, 'bottom-left')} />
@@ -282,6 +408,32 @@ const Cropper: React.FC<CropperProps> = ({ videoUrl, timeRange, initialCropArea,
                 </div>
             </div>
             <div className="p-3 bg-gray-900/50 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                    {speakers.map((speaker, i) => (
+                        <button
+                            key={i}
+                            onClick={() => handleSelectSpeaker(i)}
+                            className={`py-1 px-3 text-sm rounded-lg transition-colors ${i === activeSpeaker ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                        >
+                            {speaker.label || speakerLabel(i)}
+                        </button>
+                    ))}
+                    <button onClick={handleAddSpeaker} title="Define outro recorte para a outra persoa que fala no mesmo intervalo" className="py-1 px-3 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">
+                        + Falante
+                    </button>
+                    {speakers.length > 1 && (
+                        <>
+                            <input
+                                type="text"
+                                value={speakers[activeSpeaker].label}
+                                onChange={handleLabelChange}
+                                aria-label="Nome do falante"
+                                className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-1 w-32"
+                            />
+                            <button onClick={handleRemoveSpeaker} className="py-1 px-3 text-sm bg-gray-700 text-red-300 rounded-lg hover:bg-gray-600 transition-colors">Quitar falante</button>
+                        </>
+                    )}
+                </div>
                 <div className="flex items-center gap-3">
                     <button onClick={handlePlayPause} className="p-2 bg-gray-700 rounded-full hover:bg-gray-600">
                         {isPlaying ? <StopIcon className="w-4 h-4 text-white" /> : <PlayIcon className="w-4 h-4 text-white" />}
@@ -298,6 +450,28 @@ const Cropper: React.FC<CropperProps> = ({ videoUrl, timeRange, initialCropArea,
                     />
                      <span className="text-xs font-mono text-white">{formatTime(timeRange.end)}</span>
                 </div>
+                <div className="relative h-3 mx-1" title="Fotogramas clave">
+                    {keyframes.map(k => (
+                        <button
+                            key={k.time}
+                            onClick={() => seekTo(k.time)}
+                            title={formatTime(k.time)}
+                            className={`absolute top-0 w-3 h-3 ${k === activeKeyframe ? 'bg-pink-500' : 'bg-purple-400'} hover:bg-pink-400`}
+                            style={{ left: `${rangeDuration > 0 ? ((k.time - timeRange.start) / rangeDuration) * 100 : 0}%`, transform: 'translateX(-50%) rotate(45deg)' }}
+                        />
+                    ))}
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                    <div className="flex gap-2">
+                        <button onClick={handleSetKeyframe} className="py-1 px-3 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">
+                            {activeKeyframe ? 'Actualizar fotograma clave' : 'Engadir fotograma clave'}
+                        </button>
+                        {activeKeyframe && (
+                            <button onClick={handleDeleteKeyframe} className="py-1 px-3 text-sm bg-gray-700 text-red-300 rounded-lg hover:bg-gray-600 transition-colors">Eliminar</button>
+                        )}
+                    </div>
+                    <span className="text-xs text-gray-400">{keyframes.length} fotogramas clave</span>
+                </div>
                 <div className="flex justify-end gap-2">
                     <button onClick={onCancel} className="py-2 px-4 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-700 transition-colors">Volver</button>
                     <button onClick={handleConfirm} className="py-2 px-4 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 transition-colors">Confirmar Recorte</button>
@@ -1,12 +1,59 @@
 import React, { useState, useEffect } from 'react';
+import { CropArea, CropKeyframe, DroppedFrame, FrameDropReason } from '../types';
+import { formatTime } from '../utils/formatTime';
 
 type DebugViewerProps = {
     frames: string[];
+    /** The same frames before the preprocessing chain, for a before/after comparison. */
+    originalFrames?: string[] | null;
+    /** Candidates left out by motion-aware selection. */
+    droppedFrames?: DroppedFrame[];
+    /** Media time of each frame, when known. */
+    timestamps?: number[];
+    fps?: number;
+    /** Per-frame crop track when tracking is on; enables manual correction. */
+    track?: CropKeyframe[] | null;
+    isProcessing?: boolean;
+    onApplyTrack?: (track: CropKeyframe[]) => void;
+    /** Labels of the speakers in multi-speaker mode, to switch between their crops. */
+    speakerLabels?: string[];
+    /** Index in `speakerLabels` of the speaker whose frames are shown. */
+    activeSpeaker?: number;
+    onSelectSpeaker?: (index: number) => void;
     onClose: () => void;
 };
 
-const DebugViewer: React.FC<DebugViewerProps> = ({ frames, onClose }) => {
+/**
+ * Step (in source video pixels) used by the crop correction buttons.
+ */
+const NUDGE_STEP = 4;
+
+const DROP_REASONS: Record<FrameDropReason, string> = {
+    duplicate: 'Repetido',
+    static: 'Sen movemento',
+};
+
+const DebugViewer: React.FC<DebugViewerProps> = ({ frames, originalFrames, droppedFrames = [], timestamps = [], fps, track, isProcessing, onApplyTrack, speakerLabels = [], activeSpeaker = 0, onSelectSpeaker, onClose }) => {
     const [selected, setSelected] = useState<{frame: string, index: number} | null>(null);
+    const [draftTrack, setDraftTrack] = useState<CropKeyframe[] | null>(track ?? null);
+    const [editedIndices, setEditedIndices] = useState<Set<number>>(new Set());
+    const [showOriginals, setShowOriginals] = useState(false);
+    const hasOriginals = !!originalFrames && originalFrames.length === frames.length;
+    const gridFrames = hasOriginals && showOriginals ? originalFrames : frames;
+
+    useEffect(() => {
+        setDraftTrack(track ?? null);
+        setEditedIndices(new Set());
+    }, [track]);
+
+    // Only offer corrections when every frame has its own crop.
+    const canEditTrack = !!draftTrack && !!onApplyTrack && draftTrack.length === frames.length;
+
+    const nudgeCrop = (index: number, change: (crop: CropArea) => CropArea) => {
+        if (!draftTrack) return;
+        setDraftTrack(draftTrack.map((k, i) => i === index ? { ...k, crop: change(k.crop) } : k));
+        setEditedIndices(prev => new Set(prev).add(index));
+    };
 
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -59,11 +106,45 @@ const DebugViewer: React.FC<DebugViewerProps> = ({ frames, onClose }) => {
                     Close
                 </button>
             </div>
-            <p className="text-sm text-gray-400 mb-4">Showing {frames.length} frames. Click a frame to enlarge.</p>
+            {speakerLabels.length > 1 && (
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                    {speakerLabels.map((label, i) => (
+                        <button
+                            key={i}
+                            onClick={() => i !== activeSpeaker && onSelectSpeaker?.(i)}
+                            disabled={isProcessing}
+                            className={`py-1 px-3 text-sm rounded-lg transition-colors disabled:cursor-not-allowed ${i === activeSpeaker ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className="flex justify-between items-center mb-4 text-sm text-gray-400">
+                <p>Showing {frames.length} frames{fps ? ` sampled at ${fps.toFixed(2)} FPS` : ''}. Click a frame to enlarge.</p>
+                {hasOriginals && (
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={showOriginals} onChange={(e) => setShowOriginals(e.target.checked)} className="accent-purple-500" />
+                        <span>Ver sen preprocesar</span>
+                    </label>
+                )}
+            </div>
+            {canEditTrack && (
+                <div className="flex justify-between items-center mb-4 text-sm text-gray-400">
+                    <span>Seguimento automático activo. {editedIndices.size} fotogramas corrixidos.</span>
+                    <button
+                        onClick={() => draftTrack && onApplyTrack?.(draftTrack)}
+                        disabled={editedIndices.size === 0 || isProcessing}
+                        className="py-1 px-3 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Aplicar correccións
+                    </button>
+                </div>
+            )}
             <div className="flex-grow overflow-y-auto pr-2">
                 <div className="grid grid-cols-5 sm:grid-cols-6 md:grid-cols-8 lg:grid-cols-10 gap-2">
-                    {frames.map((frame, index) => (
-                        <div key={index} className="relative aspect-square bg-black rounded-md overflow-hidden cursor-pointer group" onClick={() => handleSelect(frame, index)}>
+                    {gridFrames.map((frame, index) => (
+                        <div key={index} className="relative aspect-square bg-black rounded-md overflow-hidden cursor-pointer group" onClick={() => handleSelect(frames[index], index)}>
                             <img 
                                 src={`data:image/jpeg;base64,${frame}`}
                                 alt={`Frame ${index + 1}`}
@@ -72,9 +153,37 @@ const DebugViewer: React.FC<DebugViewerProps> = ({ frames, onClose }) => {
                             <div className="absolute top-0 right-0 bg-black/50 text-white text-xs px-1 rounded-bl-md">
                                 {index + 1}
                             </div>
+                            {editedIndices.has(index) && (
+                                <div className="absolute bottom-0 left-0 bg-pink-600 text-white text-xs px-1 rounded-tr-md">✎</div>
+                            )}
                         </div>
                     ))}
                 </div>
+                {droppedFrames.length > 0 && (
+                    <>
+                        <p className="text-sm text-gray-400 mt-6 mb-2">
+                            {droppedFrames.length} fotogramas descartados pola selección por movemento:
+                        </p>
+                        <div className="grid grid-cols-5 sm:grid-cols-6 md:grid-cols-8 lg:grid-cols-10 gap-2">
+                            {droppedFrames.map((dropped, index) => (
+                                <div
+                                    key={index}
+                                    title={`${formatTime(dropped.timestamp)} · movemento ${(dropped.motion * 100).toFixed(1)}%`}
+                                    className="relative aspect-square bg-black rounded-md overflow-hidden opacity-60"
+                                >
+                                    <img
+                                        src={`data:image/jpeg;base64,${dropped.frame}`}
+                                        alt={`Descartado ${formatTime(dropped.timestamp)}`}
+                                        className="w-full h-full object-cover grayscale"
+                                    />
+                                    <div className="absolute bottom-0 inset-x-0 bg-black/70 text-white text-[10px] px-1 truncate">
+                                        {DROP_REASONS[dropped.reason]}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
             </div>
 
             {selected && (
@@ -94,12 +203,46 @@ const DebugViewer: React.FC<DebugViewerProps> = ({ frames, onClose }) => {
 
                         {/* Image and Counter */}
                         <div className="flex flex-col items-center justify-center gap-4">
+                            {hasOriginals ? (
+                                <div className="flex gap-4">
+                                    {[{ label: 'Antes', frame: originalFrames[selected.index] }, { label: 'Despois', frame: selected.frame }].map(({ label, frame }) => (
+                                        <figure key={label} className="flex flex-col items-center gap-2">
+                                            <img
+                                                src={`data:image/jpeg;base64,${frame}`}
+                                                alt={`${label} ${selected.index + 1}`}
+                                                className="max-h-[70vh] max-w-[38vw] object-contain shadow-2xl rounded-lg"
+                                            />
+                                            <figcaption className="text-white/60 text-sm">{label}</figcaption>
+                                        </figure>
+                                    ))}
+                                </div>
+                            ) : (
                              <img 
                                 src={`data:image/jpeg;base64,${selected.frame}`}
                                 alt={`Frame ${selected.index + 1}`}
                                 className="max-h-[80vh] max-w-[80vw] object-contain shadow-2xl rounded-lg"
                             />
-                            <p className="text-white/80 font-semibold text-lg">{selected.index + 1} / {frames.length}</p>
+                            )}
+                            <p className="text-white/80 font-semibold text-lg">
+                                {selected.index + 1} / {frames.length}
+                                {timestamps[selected.index] !== undefined && (
+                                    <span className="ml-3 font-mono text-base text-white/60">{formatTime(timestamps[selected.index])}</span>
+                                )}
+                            </p>
+                            {canEditTrack && draftTrack && (
+                                <div className="flex flex-col items-center gap-2 text-white text-sm">
+                                    <span className="font-mono text-white/70">
+                                        x {Math.round(draftTrack[selected.index].crop.x)} · y {Math.round(draftTrack[selected.index].crop.y)} · {Math.round(draftTrack[selected.index].crop.width)}×{Math.round(draftTrack[selected.index].crop.height)}
+                                    </span>
+                                    <div className="flex gap-2">
+                                        <button onClick={() => nudgeCrop(selected.index, c => ({ ...c, x: c.x - NUDGE_STEP }))} className="px-3 py-1 bg-white/20 rounded hover:bg-white/30">←</button>
+                                        <button onClick={() => nudgeCrop(selected.index, c => ({ ...c, y: c.y - NUDGE_STEP }))} className="px-3 py-1 bg-white/20 rounded hover:bg-white/30">↑</button>
+                                        <button onClick={() => nudgeCrop(selected.index, c => ({ ...c, y: c.y + NUDGE_STEP }))} className="px-3 py-1 bg-white/20 rounded hover:bg-white/30">↓</button>
+                                        <button onClick={() => nudgeCrop(selected.index, c => ({ ...c, x: c.x + NUDGE_STEP }))} className="px-3 py-1 bg-white/20 rounded hover:bg-white/30">→</button>
+                                    </div>
+                                    <span className="text-xs text-white/50">Move o recorte deste fotograma e logo preme "Aplicar correccións".</span>
+                                </div>
+                            )}
                         </div>
 
                         {/* Next Button */}
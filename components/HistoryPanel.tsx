@@ -0,0 +1,52 @@
+import React from 'react';
+import { HistoryEntry } from '../types';
+import { formatSeconds } from '../utils/formatTime';
+
+type HistoryPanelProps = {
+    entries: HistoryEntry[];
+    onOpen: (entry: HistoryEntry) => void;
+    onDelete: (id: number) => void;
+    onClose: () => void;
+};
+
+const formatFileSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, onOpen, onDelete, onClose }) => {
+    return (
+        <div className="bg-gray-800 shadow-2xl rounded-lg p-6 mb-6 space-y-4">
+            <div className="flex justify-between items-center">
+                <h2 className="text-lg font-bold text-white">Historial de sesións</h2>
+                <button onClick={onClose} className="py-2 px-4 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-700 transition-colors">Pechar</button>
+            </div>
+            {entries.length === 0 ? (
+                <p className="text-sm text-gray-400">Aínda non hai sesións gardadas. Cada transcrición completada gárdase aquí.</p>
+            ) : (
+                <ul className="space-y-2 max-h-96 overflow-y-auto pr-2">
+                    {entries.map(entry => (
+                        <li key={entry.id} className="flex items-center gap-3 bg-gray-900 rounded-lg p-3">
+                            {entry.thumbnail ? (
+                                <img src={entry.thumbnail} alt="" className="w-16 h-16 object-cover rounded-md bg-black flex-shrink-0" />
+                            ) : (
+                                <div className="w-16 h-16 rounded-md bg-black flex-shrink-0" />
+                            )}
+                            <div className="flex-grow min-w-0">
+                                <p className="text-sm text-white font-semibold truncate">{entry.fileName}</p>
+                                <p className="text-xs text-gray-500">
+                                    {new Date(entry.createdAt).toLocaleString()} · {formatFileSize(entry.fileSize)} · {formatSeconds(entry.timeRange.start)}–{formatSeconds(entry.timeRange.end)} · {entry.language} · {entry.model}
+                                    {entry.promptTemplate && ` · ${entry.promptTemplate.name} v${entry.promptTemplate.version}`}
+                                </p>
+                                <p className="text-sm text-gray-300 truncate">{entry.transcription}</p>
+                            </div>
+                            <div className="flex flex-col gap-1 flex-shrink-0">
+                                <button onClick={() => onOpen(entry)} className="py-1 px-3 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors">Abrir</button>
+                                <button onClick={() => entry.id !== undefined && onDelete(entry.id)} className="py-1 px-3 text-sm bg-gray-700 text-red-300 rounded-lg hover:bg-gray-600 transition-colors">Eliminar</button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default HistoryPanel;
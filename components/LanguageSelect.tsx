@@ -0,0 +1,25 @@
+import React from 'react';
+import { LanguageOption, SPOKEN_LANGUAGES } from '../utils/languages';
+
+type LanguageSelectProps = {
+    id: string;
+    value: string;
+    onChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+    /** The spoken languages when absent. */
+    options?: LanguageOption[];
+};
+
+const LanguageSelect: React.FC<LanguageSelectProps> = ({ id, value, onChange, options = SPOKEN_LANGUAGES }) => (
+    <select
+        id={id}
+        value={value}
+        onChange={onChange}
+        className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block p-2.5"
+    >
+        {options.map(language => (
+            <option key={language.value} value={language.value}>{language.label}</option>
+        ))}
+    </select>
+);
+
+export default LanguageSelect;
@@ -0,0 +1,293 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CropArea, TranscriptSegment } from '../types';
+import { startLiveTranscription, LiveTranscriptionSession, LiveWindowTranscriber, LIVE_WINDOW_SECONDS_OPTIONS } from '../services/liveTranscription';
+import { captureVideoCrop } from '../utils/media';
+import { LONG_FORM_WINDOW_SECONDS, joinSegments } from '../utils/chunking';
+import { formatSubtitles, SUBTITLE_MIME_TYPES } from '../utils/subtitles';
+import { downloadBlob, downloadTextFile, baseFileName } from '../utils/download';
+import { errorStatus } from '../utils/errors';
+import { formatTime } from '../utils/formatTime';
+import { LoadingSpinnerIcon } from './Icons';
+import LanguageSelect from './LanguageSelect';
+
+type LiveCaptureProps = {
+    language: string;
+    onLanguageChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+    /** Sends one window of frames with the editor's preprocessing, packing and prompt settings. */
+    transcribe: LiveWindowTranscriber;
+    /** Opens a recorded clip in the editor. */
+    onOpenClip: (file: File) => void;
+    onClose: () => void;
+};
+
+const buttonClassName = "py-2 px-4 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Where the mouth usually is when facing a webcam: the lower middle of the frame.
+const defaultCrop = (width: number, height: number): CropArea => ({
+    x: Math.round(width * 0.3),
+    y: Math.round(height * 0.55),
+    width: Math.round(width * 0.4),
+    height: Math.round(height * 0.25),
+});
+
+const clipFileName = (mimeType: string) =>
+    `beizosgal-camara-${new Date().toISOString().replace(/[:.]/g, '-')}.${mimeType.includes('mp4') ? 'mp4' : 'webm'}`;
+
+const LiveCapture: React.FC<LiveCaptureProps> = ({ language, onLanguageChange, transcribe, onOpenClip, onClose }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const overlayRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const sessionRef = useRef<LiveTranscriptionSession | null>(null);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+    // Where a crop drag started, in video pixels.
+    const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+    const [cameraReady, setCameraReady] = useState(false);
+    const [crop, setCrop] = useState<CropArea | null>(null);
+    const [windowSeconds, setWindowSeconds] = useState(LONG_FORM_WINDOW_SECONDS);
+    const [recordClip, setRecordClip] = useState(true);
+    const [isRunning, setIsRunning] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+    const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+    const [clip, setClip] = useState<File | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // The session reads these when it runs, so it always uses the latest crop and settings.
+    const cropRef = useRef(crop);
+    cropRef.current = crop;
+    const transcribeRef = useRef(transcribe);
+    transcribeRef.current = transcribe;
+
+    useEffect(() => {
+        let cancelled = false;
+        navigator.mediaDevices.getUserMedia({ video: true, audio: false })
+            .then(stream => {
+                if (cancelled) {
+                    stream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                streamRef.current = stream;
+                if (videoRef.current) videoRef.current.srcObject = stream;
+            })
+            .catch(err => {
+                console.error('Could not open the webcam:', err);
+                setError(err instanceof DOMException && err.name === 'NotAllowedError'
+                    ? 'Non se concedeu permiso para usar a cámara.'
+                    : 'Non se puido abrir a cámara.');
+            });
+        return () => {
+            cancelled = true;
+            sessionRef.current?.stop();
+            if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+            streamRef.current?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    const handleLoadedMetadata = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        setCameraReady(true);
+        setCrop(current => current ?? defaultCrop(video.videoWidth, video.videoHeight));
+    };
+
+    // Converts a pointer position to video pixels, clamped to the frame.
+    const toVideoPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+        const video = videoRef.current!;
+        const rect = overlayRef.current!.getBoundingClientRect();
+        const scale = video.videoWidth / rect.width;
+        return {
+            x: Math.min(video.videoWidth, Math.max(0, (e.clientX - rect.left) * scale)),
+            y: Math.min(video.videoHeight, Math.max(0, (e.clientY - rect.top) * scale)),
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!cameraReady) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragStartRef.current = toVideoPoint(e);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const start = dragStartRef.current;
+        if (!start) return;
+        const point = toVideoPoint(e);
+        const width = Math.abs(point.x - start.x);
+        const height = Math.abs(point.y - start.y);
+        // Tiny drags are clicks; they keep the current crop.
+        if (width < 10 || height < 10) return;
+        setCrop({ x: Math.round(Math.min(start.x, point.x)), y: Math.round(Math.min(start.y, point.y)), width: Math.round(width), height: Math.round(height) });
+    };
+
+    const handlePointerUp = () => {
+        dragStartRef.current = null;
+    };
+
+    const startRecording = (stream: MediaStream) => {
+        const chunks: Blob[] = [];
+        const recorder = new MediaRecorder(stream);
+        recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) chunks.push(event.data);
+        };
+        recorder.onstop = () => {
+            const type = recorder.mimeType || 'video/webm';
+            setClip(new File(chunks, clipFileName(type), { type }));
+        };
+        recorder.start(1000);
+        recorderRef.current = recorder;
+    };
+
+    const handleStop = () => {
+        sessionRef.current?.stop();
+        sessionRef.current = null;
+        if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+        recorderRef.current = null;
+        setIsRunning(false);
+        setIsBusy(false);
+    };
+
+    const handleStart = () => {
+        const video = videoRef.current;
+        const stream = streamRef.current;
+        if (!video || !stream) return;
+        setSegments([]);
+        setClip(null);
+        setError(null);
+        if (recordClip && typeof MediaRecorder !== 'undefined') startRecording(stream);
+        sessionRef.current = startLiveTranscription({
+            grabFrame: () => {
+                canvasRef.current ??= document.createElement('canvas');
+                return cropRef.current && captureVideoCrop(video, cropRef.current, canvasRef.current);
+            },
+            transcribe: (sequence, signal) => transcribeRef.current(sequence, signal),
+            windowSeconds,
+            onSegment: (segment) => setSegments(current => [...current, segment]),
+            onBusyChange: setIsBusy,
+            onError: (err) => {
+                console.error('Live transcription failed:', err);
+                handleStop();
+                setError(errorStatus(err).message);
+            },
+        });
+        setIsRunning(true);
+    };
+
+    const exportName = clip ? baseFileName(clip.name) : 'beizosgal-camara';
+
+    const handleExportTranscript = (format: 'txt' | 'srt') => {
+        if (format === 'txt') {
+            downloadTextFile(`${exportName}.txt`, joinSegments(segments), 'text/plain');
+        } else {
+            downloadTextFile(`${exportName}.srt`, formatSubtitles(segments, 'srt'), SUBTITLE_MIME_TYPES.srt);
+        }
+    };
+
+    const videoWidth = videoRef.current?.videoWidth || 1;
+    const videoHeight = videoRef.current?.videoHeight || 1;
+
+    return (
+        <div className="bg-gray-800 shadow-2xl rounded-lg p-6 mb-6 space-y-4">
+            <div className="flex justify-between items-center">
+                <h2 className="text-lg font-bold text-white">Cámara en directo</h2>
+                <button onClick={onClose} className={buttonClassName}>Pechar</button>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                    <div className="bg-black rounded-lg overflow-hidden flex justify-center">
+                        <div
+                            ref={overlayRef}
+                            className="relative inline-block cursor-crosshair touch-none"
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                        >
+                            <video ref={videoRef} className="block max-w-full max-h-96" onLoadedMetadata={handleLoadedMetadata} autoPlay muted playsInline />
+                            {crop && cameraReady && (
+                                <div
+                                    className="absolute border-2 border-dashed border-purple-400 bg-black/20 pointer-events-none"
+                                    style={{
+                                        left: `${(crop.x / videoWidth) * 100}%`,
+                                        top: `${(crop.y / videoHeight) * 100}%`,
+                                        width: `${(crop.width / videoWidth) * 100}%`,
+                                        height: `${(crop.height / videoHeight) * 100}%`,
+                                    }}
+                                />
+                            )}
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-500">Arrastra sobre a imaxe para encadrar a boca; o recorte pódese cambiar mentres se transcribe.</p>
+                </div>
+                <div className="space-y-3">
+                    <div>
+                        <label htmlFor="live-language-select" className="block text-sm font-medium text-gray-400 mb-1">Idioma</label>
+                        <LanguageSelect id="live-language-select" value={language} onChange={onLanguageChange} />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-400">
+                        Transcribir cada
+                        <select
+                            value={windowSeconds}
+                            onChange={(e) => setWindowSeconds(Number(e.target.value))}
+                            disabled={isRunning}
+                            className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-1.5"
+                        >
+                            {LIVE_WINDOW_SECONDS_OPTIONS.map(seconds => (
+                                <option key={seconds} value={seconds}>{seconds} s</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+                        <input type="checkbox" checked={recordClip} onChange={(e) => setRecordClip(e.target.checked)} disabled={isRunning} className="accent-purple-500" />
+                        <span>Gravar o clip para analizalo despois</span>
+                    </label>
+                    <div className="flex flex-wrap items-center gap-2">
+                        {isRunning ? (
+                            <button onClick={handleStop} className="py-2 px-4 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors">Deter</button>
+                        ) : (
+                            <button onClick={handleStart} disabled={!cameraReady || !crop} className="py-2 px-4 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+                                Comezar a transcribir
+                            </button>
+                        )}
+                        {isRunning && (
+                            <span className="flex items-center gap-2 text-sm text-gray-400">
+                                {isBusy && <LoadingSpinnerIcon className="w-4 h-4" />}
+                                {isBusy ? 'Transcribindo o último tramo...' : 'Capturando...'}
+                            </span>
+                        )}
+                    </div>
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    {clip && (
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <span className="text-gray-400">Clip gravado:</span>
+                            <button onClick={() => downloadBlob(clip.name, clip)} className={buttonClassName}>Descargar</button>
+                            <button onClick={() => onOpenClip(clip)} className={buttonClassName}>Analizar no editor</button>
+                        </div>
+                    )}
+                </div>
+            </div>
+            <div className="bg-gray-900 rounded-lg p-4 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium text-gray-400">Transcrición en directo:</p>
+                    {segments.length > 0 && (
+                        <div className="flex gap-2 text-sm">
+                            <button onClick={() => handleExportTranscript('txt')} className="py-1 px-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">.txt</button>
+                            <button onClick={() => handleExportTranscript('srt')} className="py-1 px-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">.srt</button>
+                        </div>
+                    )}
+                </div>
+                {segments.length === 0 ? (
+                    <p className="text-gray-500">{isRunning ? 'Agardando o primeiro tramo...' : 'A transcrición aparecerá aquí...'}</p>
+                ) : (
+                    <div className="max-h-64 overflow-y-auto space-y-1">
+                        {segments.map((segment, index) => (
+                            <p key={index} className="text-gray-300">
+                                <span className="text-xs font-mono text-gray-500 mr-2">{formatTime(segment.start)}</span>
+                                {segment.text}
+                            </p>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default LiveCapture;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { PreprocessingStep, PreprocessingStepId } from '../types';
+import { PREPROCESSING_STEPS, PREPROCESSING_STEP_IDS, createPreprocessingStep } from '../utils/preprocessing';
+
+type PreprocessingPanelProps = {
+    chain: PreprocessingStep[];
+    onChange: (chain: PreprocessingStep[]) => void;
+};
+
+const buttonClassName = "px-2 py-0.5 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed";
+
+const PreprocessingPanel: React.FC<PreprocessingPanelProps> = ({ chain, onChange }) => {
+    const available = PREPROCESSING_STEP_IDS.filter(id => !chain.some(step => step.id === id));
+
+    const move = (index: number, offset: number) => {
+        const next = [...chain];
+        const [step] = next.splice(index, 1);
+        next.splice(index + offset, 0, step);
+        onChange(next);
+    };
+
+    const handleAdd = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        if (!e.target.value) return;
+        onChange([...chain, createPreprocessingStep(e.target.value as PreprocessingStepId)]);
+    };
+
+    return (
+        <div className="bg-gray-900 rounded-lg p-3 space-y-2 text-sm">
+            <p className="font-medium text-gray-400">Preprocesado dos fotogramas {chain.length === 0 && <span className="text-gray-500">(ningún)</span>}</p>
+            {chain.map((step, index) => {
+                const definition = PREPROCESSING_STEPS[step.id];
+                return (
+                    <div key={step.id} className="flex items-center gap-2">
+                        <span className="text-gray-500 w-4">{index + 1}.</span>
+                        <span className="text-gray-300 w-40 truncate">{definition.label}</span>
+                        <input
+                            type="range"
+                            min={definition.min}
+                            max={definition.max}
+                            step={definition.step}
+                            value={step.amount}
+                            onChange={(e) => onChange(chain.map((s, i) => i === index ? { ...s, amount: parseFloat(e.target.value) } : s))}
+                            className="flex-grow h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                        />
+                        <span className="font-mono text-xs text-gray-400 w-10 text-right">{step.amount}</span>
+                        <button onClick={() => move(index, -1)} disabled={index === 0} title="Subir" className={buttonClassName}>↑</button>
+                        <button onClick={() => move(index, 1)} disabled={index === chain.length - 1} title="Baixar" className={buttonClassName}>↓</button>
+                        <button onClick={() => onChange(chain.filter((_, i) => i !== index))} title="Quitar" className={buttonClassName}>✕</button>
+                    </div>
+                );
+            })}
+            {available.length > 0 && (
+                <select
+                    value=""
+                    onChange={handleAdd}
+                    className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block p-1.5"
+                >
+                    <option value="">Engadir paso...</option>
+                    {available.map(id => (
+                        <option key={id} value={id}>{PREPROCESSING_STEPS[id].label}</option>
+                    ))}
+                </select>
+            )}
+        </div>
+    );
+};
+
+export default PreprocessingPanel;
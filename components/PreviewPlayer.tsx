@@ -1,20 +1,24 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { CropArea, TimeRange } from '../types';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { CropKeyframe, TimeRange, TranscriptSegment } from '../types';
 import { PlayIcon, StopIcon } from './Icons';
 import { formatTime } from '../utils/formatTime';
+import { interpolateCrop } from '../utils/crop';
+import { findActiveSegment } from '../utils/subtitles';
 
 type PreviewPlayerProps = {
     videoUrl: string;
     timeRange: TimeRange;
-    cropArea: CropArea;
+    cropKeyframes: CropKeyframe[];
+    segments?: TranscriptSegment[];
 };
 
-const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ videoUrl, timeRange, cropArea }) => {
+const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ videoUrl, timeRange, cropKeyframes, segments = [] }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const containerRef = useRef<HTMLDivElement>(null); 
     const [videoStyle, setVideoStyle] = useState<React.CSSProperties>({});
     const [currentTime, setCurrentTime] = useState(timeRange.start);
     const [isPlaying, setIsPlaying] = useState(false);
+    const [showSubtitles, setShowSubtitles] = useState(false);
     
     useEffect(() => {
         if(videoRef.current) {
@@ -22,44 +26,70 @@ const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ videoUrl, timeRange, crop
         }
     }, [timeRange.start, videoUrl]);
 
-    useEffect(() => {
+    // Applies the crop interpolated for the video's current time.
+    const updateStyle = useCallback(() => {
         const video = videoRef.current;
         const container = containerRef.current;
+        if (!video || !container) return;
+
+        // Subtitles are shown over the whole original frame, not the mouth crop.
+        if (showSubtitles) {
+            setVideoStyle({ width: '100%', height: '100%', objectFit: 'contain' });
+            return;
+        }
 
-        if (!video || !container || !cropArea || cropArea.width === 0) {
+        const cropArea = interpolateCrop(cropKeyframes, video.currentTime);
+        if (cropArea.width === 0) {
             setVideoStyle({});
             return;
         }
 
-        const updateStyle = () => {
-            const { videoWidth, videoHeight } = video;
-            const { clientWidth: containerWidth } = container;
-            
-            if (videoWidth === 0 || containerWidth === 0) return;
-
-            const scale = containerWidth / cropArea.width;
-            const translateX = -cropArea.x * scale;
-            const translateY = -cropArea.y * scale;
-
-            setVideoStyle({
-                width: videoWidth,
-                height: videoHeight,
-                maxWidth: 'none',
-                transform: `translate(${translateX}px, ${translateY}px) scale(${scale})`,
-                transformOrigin: 'top left',
-            });
-        };
+        const { videoWidth, videoHeight } = video;
+        const { clientWidth: containerWidth } = container;
+
+        if (videoWidth === 0 || containerWidth === 0) return;
+
+        const scale = containerWidth / cropArea.width;
+        const translateX = -cropArea.x * scale;
+        const translateY = -cropArea.y * scale;
+
+        setVideoStyle({
+            width: videoWidth,
+            height: videoHeight,
+            maxWidth: 'none',
+            transform: `translate(${translateX}px, ${translateY}px) scale(${scale})`,
+            transformOrigin: 'top left',
+        });
+    }, [cropKeyframes, showSubtitles]);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) return;
 
         video.addEventListener('loadedmetadata', updateStyle);
+        video.addEventListener('seeked', updateStyle);
         window.addEventListener('resize', updateStyle);
-        
+
         updateStyle();
 
         return () => {
             video.removeEventListener('loadedmetadata', updateStyle);
+            video.removeEventListener('seeked', updateStyle);
             window.removeEventListener('resize', updateStyle);
         };
-    }, [cropArea, videoUrl]);
+    }, [updateStyle, videoUrl]);
+
+    // timeupdate fires only a few times per second, so follow the keyframes per animation frame while playing.
+    useEffect(() => {
+        if (!isPlaying || showSubtitles || cropKeyframes.length < 2) return;
+        let frameId = requestAnimationFrame(function tick() {
+            updateStyle();
+            frameId = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frameId);
+    }, [isPlaying, showSubtitles, cropKeyframes, updateStyle]);
+
+    const activeSegment = showSubtitles ? findActiveSegment(segments, currentTime) : undefined;
 
     const handleTimeUpdate = () => {
         if (!videoRef.current) return;
@@ -93,9 +123,17 @@ const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ videoUrl, timeRange, crop
 
     return (
         <div className="flex flex-col h-full">
-            <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
-                Vista Previa do Recorte
-            </p>
+            <div className="flex justify-between items-center mb-2">
+                <p className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+                    {showSubtitles ? 'Vídeo Orixinal con Subtítulos' : 'Vista Previa do Recorte'}
+                </p>
+                {segments.length > 0 && (
+                    <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                        <input type="checkbox" checked={showSubtitles} onChange={(e) => setShowSubtitles(e.target.checked)} className="accent-purple-500" />
+                        <span>Subtítulos</span>
+                    </label>
+                )}
+            </div>
             <div className="bg-black rounded-lg overflow-hidden relative flex flex-col flex-grow">
                 <div className="relative w-full flex-grow flex items-center justify-center">
                     <div ref={containerRef} className="relative w-full max-w-full aspect-video overflow-hidden bg-black">
@@ -110,6 +148,11 @@ const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ videoUrl, timeRange, crop
                             muted
                             loop
                         />
+                        {activeSegment && (
+                            <div className="absolute bottom-3 inset-x-0 flex justify-center px-4 pointer-events-none">
+                                <span className="bg-black/75 text-white text-sm sm:text-base px-3 py-1 rounded whitespace-pre-line text-center">{activeSegment.text}</span>
+                            </div>
+                        )}
                     </div>
                 </div>
                 <div className="p-3 bg-gray-900/50 space-y-2">
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { PromptTemplate } from '../types';
+import {
+    createTemplateVersion, duplicateTemplate, findUnknownPlaceholders, latestTemplates, templateVersions,
+    DEFAULT_PROMPT_TEMPLATE, PROMPT_PLACEHOLDERS,
+} from '../services/promptTemplates';
+import { diffLines } from '../utils/textDiff';
+
+type PromptTemplatePanelProps = {
+    library: PromptTemplate[];
+    active: PromptTemplate;
+    onSelect: (template: PromptTemplate) => void;
+    /** Stores a new version or a new template, which becomes the active one. */
+    onAdd: (template: PromptTemplate) => void;
+    onDelete: (id: string) => void;
+    onClose: () => void;
+};
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block p-2.5";
+const labelClassName = "block text-sm font-medium text-gray-400 mb-1";
+const buttonClassName = "py-2 px-4 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const DIFF_LINE_CLASSES = {
+    same: 'text-gray-400',
+    added: 'bg-green-900/40 text-green-300',
+    removed: 'bg-red-900/40 text-red-300 line-through',
+};
+const DIFF_LINE_PREFIXES = { same: ' ', added: '+', removed: '-' };
+
+const versionKey = (template: PromptTemplate) => `${template.id}@${template.version}`;
+const versionLabel = (template: PromptTemplate) => `${template.name} v${template.version}`;
+
+const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({ library, active, onSelect, onAdd, onDelete, onClose }) => {
+    const [name, setName] = useState(active.name);
+    const [body, setBody] = useState(active.body);
+    const [compareKey, setCompareKey] = useState('');
+
+    const versions = templateVersions(library, active.id);
+    const isDirty = name.trim() !== active.name || body !== active.body;
+    const unknown = findUnknownPlaceholders(body);
+    const compared = library.find(t => versionKey(t) === compareKey);
+
+    const handleSelectTemplate = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const template = latestTemplates(library).find(t => t.id === e.target.value);
+        if (template) onSelect(template);
+    };
+
+    const handleSelectVersion = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const template = versions.find(t => t.version === Number(e.target.value));
+        if (template) onSelect(template);
+    };
+
+    const handleDelete = () => {
+        if (window.confirm(`Borrar o modelo "${active.name}" e todas as súas versións?`)) onDelete(active.id);
+    };
+
+    return (
+        <div className="bg-gray-800 shadow-2xl rounded-lg p-6 mb-6 space-y-4">
+            <div className="flex justify-between items-center">
+                <h2 className="text-lg font-bold text-white">Modelos de prompt</h2>
+                <button onClick={onClose} className={buttonClassName}>Pechar</button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="sm:col-span-2">
+                    <label htmlFor="template-select" className={labelClassName}>Modelo en uso</label>
+                    <select id="template-select" value={active.id} onChange={handleSelectTemplate} className={inputClassName}>
+                        {latestTemplates(library).map(t => (
+                            <option key={t.id} value={t.id}>{t.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="version-select" className={labelClassName}>Versión</label>
+                    <select id="version-select" value={active.version} onChange={handleSelectVersion} className={inputClassName}>
+                        {versions.map(t => (
+                            <option key={t.version} value={t.version}>
+                                v{t.version}{t.createdAt ? ` · ${new Date(t.createdAt).toLocaleString()}` : ''}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+            <div>
+                <label htmlFor="template-name" className={labelClassName}>Nome</label>
+                <input id="template-name" type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+            </div>
+            <div>
+                <label htmlFor="template-body" className={labelClassName}>Texto</label>
+                <textarea
+                    id="template-body"
+                    value={body}
+                    onChange={(e) => setBody(e.target.value)}
+                    rows={14}
+                    className={`${inputClassName} font-mono text-xs`}
+                />
+                {unknown.length > 0 && (
+                    <p className="text-sm text-yellow-400 mt-1">
+                        Marcadores descoñecidos, enviaranse tal cal: {unknown.map(p => `{{${p}}}`).join(', ')}
+                    </p>
+                )}
+            </div>
+            <details className="text-sm text-gray-400">
+                <summary className="cursor-pointer">Marcadores dispoñibles</summary>
+                <ul className="mt-2 space-y-1">
+                    {PROMPT_PLACEHOLDERS.map(p => (
+                        <li key={p.name}><code className="text-purple-300">{`{{${p.name}}}`}</code> — {p.description}</li>
+                    ))}
+                </ul>
+            </details>
+            <div className="flex flex-wrap justify-end gap-2">
+                {active.id !== DEFAULT_PROMPT_TEMPLATE.id && (
+                    <button onClick={handleDelete} className={buttonClassName}>Borrar modelo</button>
+                )}
+                <button onClick={() => onAdd(duplicateTemplate({ ...active, body }, `${name.trim() || active.name} (copia)`))} className={buttonClassName}>
+                    Duplicar
+                </button>
+                <button
+                    onClick={() => onAdd(createTemplateVersion(library, active, { name: name.trim() || active.name, body }))}
+                    disabled={!isDirty}
+                    className="py-2 px-4 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+                >
+                    Gardar como v{Math.max(...versions.map(t => t.version)) + 1}
+                </button>
+            </div>
+            <div className="space-y-2">
+                <label htmlFor="compare-select" className={labelClassName}>Comparar o texto editado con</label>
+                <select id="compare-select" value={compareKey} onChange={(e) => setCompareKey(e.target.value)} className={inputClassName}>
+                    <option value="">Ningunha versión</option>
+                    {library.map(t => (
+                        <option key={versionKey(t)} value={versionKey(t)}>{versionLabel(t)}</option>
+                    ))}
+                </select>
+                {compared && (
+                    <pre className="bg-gray-900 rounded-lg p-3 text-xs font-mono whitespace-pre-wrap max-h-96 overflow-y-auto">
+                        {diffLines(compared.body, body).map((line, i) => (
+                            <div key={i} className={DIFF_LINE_CLASSES[line.type]}>{DIFF_LINE_PREFIXES[line.type]} {line.text}</div>
+                        ))}
+                    </pre>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PromptTemplatePanel;
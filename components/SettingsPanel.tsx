@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CassetteMode, ProviderId, ProviderSettings } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS, PROVIDER_LABELS } from '../services/lipReadingProvider';
+import { parseCassette, serializeCassette } from '../services/cassette';
+import { clearCassette, importCassetteEntries, listCassetteEntries } from '../services/cassetteStore';
+import { downloadTextFile } from '../utils/download';
+
+type SettingsPanelProps = {
+    settings: ProviderSettings;
+    onSave: (settings: ProviderSettings) => void;
+    onClose: () => void;
+};
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block p-2.5";
+const labelClassName = "block text-sm font-medium text-gray-400 mb-1";
+const smallButtonClassName = "py-1 px-3 text-sm bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const CASSETTE_MODES: Record<CassetteMode, string> = {
+    off: 'Desactivada',
+    record: 'Gravar as chamadas e as respostas',
+    replay: 'Reproducir só o gravado (sen rede)',
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+    const [draft, setDraft] = useState<ProviderSettings>(settings);
+    const [recordedCount, setRecordedCount] = useState<number | null>(null);
+    const [cassetteMessage, setCassetteMessage] = useState('');
+    const cassetteInputRef = useRef<HTMLInputElement>(null);
+
+    const refreshRecordedCount = () => {
+        listCassetteEntries()
+            .then(entries => setRecordedCount(entries.length))
+            .catch(() => setRecordedCount(null));
+    };
+
+    useEffect(refreshRecordedCount, []);
+
+    const handleExportCassette = async () => {
+        downloadTextFile('beizosgal-cassette.json', serializeCassette(await listCassetteEntries()), 'application/json');
+    };
+
+    const handleImportCassette = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const entries = parseCassette(await file.text());
+            await importCassetteEntries(entries);
+            setCassetteMessage(`Importadas ${entries.length} chamadas.`);
+        } catch (error) {
+            setCassetteMessage(`Non se puido importar: ${error instanceof Error ? error.message : error}`);
+        }
+        refreshRecordedCount();
+    };
+
+    const handleClearCassette = async () => {
+        if (!window.confirm('Borrar todas as chamadas gravadas?')) return;
+        await clearCassette();
+        setCassetteMessage('');
+        refreshRecordedCount();
+    };
+
+    const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const provider = e.target.value as ProviderId;
+        // Switching provider loads its defaults, as models and URLs are not interchangeable.
+        setDraft(prev => {
+            const kept = { cassetteMode: prev.cassetteMode, timeoutSeconds: prev.timeoutSeconds, maxRetries: prev.maxRetries };
+            return provider === settings.provider ? { ...settings, ...kept } : { ...DEFAULT_PROVIDER_SETTINGS[provider], ...kept };
+        });
+    };
+
+    const updateField = (field: keyof ProviderSettings) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        setDraft(prev => ({ ...prev, [field]: e.target.value }));
+    };
+
+    const updateNumber = (field: 'timeoutSeconds' | 'maxRetries') => (e: React.ChangeEvent<HTMLInputElement>) => {
+        setDraft(prev => ({ ...prev, [field]: Math.max(0, Math.round(Number(e.target.value) || 0)) }));
+    };
+
+    return (
+        <div className="bg-gray-800 shadow-2xl rounded-lg p-6 mb-6 space-y-4">
+            <div className="flex justify-between items-center">
+                <h2 className="text-lg font-bold text-white">Axustes do provedor</h2>
+                <button onClick={onClose} className="py-2 px-4 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-700 transition-colors">Pechar</button>
+            </div>
+            <div>
+                <label htmlFor="provider-select" className={labelClassName}>Provedor</label>
+                <select id="provider-select" value={draft.provider} onChange={handleProviderChange} className={inputClassName}>
+                    {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                        <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+                    ))}
+                </select>
+            </div>
+            {draft.provider !== 'mock' && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="vision-model" className={labelClassName}>Modelo de visión</label>
+                        <input id="vision-model" type="text" value={draft.visionModel} onChange={updateField('visionModel')} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="tts-model" className={labelClassName}>Modelo de voz</label>
+                        <input id="tts-model" type="text" value={draft.ttsModel} onChange={updateField('ttsModel')} className={inputClassName} />
+                    </div>
+                    {draft.provider === 'openai' && (
+                        <div className="sm:col-span-2">
+                            <label htmlFor="base-url" className={labelClassName}>URL base</label>
+                            <input id="base-url" type="text" value={draft.baseUrl} onChange={updateField('baseUrl')} className={inputClassName} />
+                        </div>
+                    )}
+                    <div className="sm:col-span-2">
+                        <label htmlFor="api-key" className={labelClassName}>
+                            API key {draft.provider === 'gemini' ? '(baleiro = usar VITE_API_KEY)' : '(opcional)'}
+                        </label>
+                        <input id="api-key" type="password" value={draft.apiKey} onChange={updateField('apiKey')} className={inputClassName} />
+                    </div>
+                </div>
+            )}
+            {draft.provider === 'mock' && (
+                <p className="text-sm text-gray-400">O provedor simulado devolve sempre a mesma resposta para os mesmos fotogramas e non fai ningunha chamada de rede.</p>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="timeout-seconds" className={labelClassName}>Tempo máximo por petición (s, 0 = sen límite)</label>
+                    <input id="timeout-seconds" type="number" min={0} value={draft.timeoutSeconds} onChange={updateNumber('timeoutSeconds')} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="max-retries" className={labelClassName}>Reintentos ante erros temporais</label>
+                    <input id="max-retries" type="number" min={0} max={10} value={draft.maxRetries} onChange={updateNumber('maxRetries')} className={inputClassName} />
+                </div>
+            </div>
+            <div className="space-y-2">
+                <label htmlFor="cassette-mode" className={labelClassName}>Gravación de chamadas</label>
+                <select
+                    id="cassette-mode"
+                    value={draft.cassetteMode}
+                    onChange={(e) => setDraft(prev => ({ ...prev, cassetteMode: e.target.value as CassetteMode }))}
+                    className={inputClassName}
+                >
+                    {(Object.keys(CASSETTE_MODES) as CassetteMode[]).map(mode => (
+                        <option key={mode} value={mode}>{CASSETTE_MODES[mode]}</option>
+                    ))}
+                </select>
+                <p className="text-sm text-gray-400">
+                    Ao reproducir, as transcricións e o audio saen das chamadas gravadas con exactamente os mesmos fotogramas, prompt e modelo; calquera outra petición falla sen usar a rede.
+                    {recordedCount !== null && ` Hai ${recordedCount} chamadas gravadas.`}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                    <input ref={cassetteInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportCassette} />
+                    <button onClick={handleExportCassette} disabled={!recordedCount} className={smallButtonClassName}>Exportar</button>
+                    <button onClick={() => cassetteInputRef.current?.click()} className={smallButtonClassName}>Importar</button>
+                    <button onClick={handleClearCassette} disabled={!recordedCount} className={smallButtonClassName}>Baleirar</button>
+                </div>
+                {cassetteMessage && <p className="text-sm text-gray-300">{cassetteMessage}</p>}
+            </div>
+            <div className="flex justify-end">
+                <button onClick={() => onSave(draft)} className="py-2 px-4 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 transition-colors">Gardar</button>
+            </div>
+        </div>
+    );
+};
+
+export default SettingsPanel;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { UploadIcon } from './Icons';
+import { UploadIcon, VideoCameraIcon } from './Icons';
 
 type UploadScreenProps = {
     isDraggingOver: boolean;
@@ -9,9 +9,10 @@ type UploadScreenProps = {
     onDragLeave: (e: React.DragEvent<HTMLDivElement>) => void;
     onDrop: (e: React.DragEvent<HTMLDivElement>) => void;
     onFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    onOpenCamera: () => void;
 };
 
-const UploadScreen: React.FC<UploadScreenProps> = ({ isDraggingOver, isProcessing, fileInputRef, onDragOver, onDragLeave, onDrop, onFileChange }) => {
+const UploadScreen: React.FC<UploadScreenProps> = ({ isDraggingOver, isProcessing, fileInputRef, onDragOver, onDragLeave, onDrop, onFileChange, onOpenCamera }) => {
     return (
         <div 
             className={`border-2 border-dashed rounded-lg p-6 text-center h-full flex flex-col justify-center transition-colors duration-200 ease-in-out ${isDraggingOver ? 'border-purple-400 bg-gray-700' : 'border-gray-600'}`}
@@ -24,6 +25,14 @@ const UploadScreen: React.FC<UploadScreenProps> = ({ isDraggingOver, isProcessin
               <UploadIcon className="w-12 h-12 mx-auto text-gray-500 group-hover:text-purple-400 transition-colors" />
               <p className="mt-2 text-sm text-gray-400">{isDraggingOver ? 'Solta o vídeo para subir' : 'Fai clic para subir ou arrastra e solta un vídeo'}</p>
             </label>
+            <button
+              onClick={onOpenCamera}
+              disabled={isProcessing}
+              className="mt-4 mx-auto flex items-center gap-2 py-2 px-4 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <VideoCameraIcon className="w-4 h-4" />
+              <span>Ou usa a cámara web en directo</span>
+            </button>
         </div>
     );
 };
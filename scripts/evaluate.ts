@@ -0,0 +1,258 @@
+/**
+ * Headless evaluation: runs a dataset manifest through the app's sampling and provider code and
+ * prints word/character error rates. Run with `npm run evaluate -- <manifest.json> [options]`.
+ *
+ *   --provider mock|gemini|openai   provider to evaluate (default: mock, no network)
+ *   --model <name>                  vision model, when not the provider default
+ *   --base-url <url>                endpoint of an OpenAI-compatible server
+ *   --template <file>               prompt template: a saved template as JSON, or the template text
+ *   --preprocessing <steps>         preprocessing chain of clips and frame folders, e.g. contrast=1.4,sharpen (default amounts when left out)
+ *   --motion-selection on|off       motion-aware frame selection for clips and frame folders (default: off)
+ *   --packing frames|grid-3x3|grid-4x4   contact sheet packing of clips and frame folders (default: frames)
+ *   --out <report.json>             also write the full report as JSON
+ *   --cassette <file.json>          replay provider calls from a cassette (no network), or record into it
+ *   --cassette-mode replay|record   default: replay
+ *   --timeout <seconds>             time limit of each provider request (default: 120; 0 for none)
+ *   --retries <count>               retries of transient failures (default: 3)
+ *
+ * Clips (decoded with ffmpeg) and frame folders go through the app's pipeline (crop, motion selection,
+ * preprocessing, packing) on a Node canvas; project ZIPs are sent as recorded. API keys are read from GEMINI_API_KEY / VITE_API_KEY
+ * or OPENAI_API_KEY.
+ */
+import { access, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+    CassetteMode, EvaluationItem, FramePacking, FrameSequence, PreprocessingStep, PreprocessingStepId, PromptTemplate,
+    ProviderId, ProviderSettings,
+} from '../types';
+import { createProvider, DEFAULT_PROVIDER_SETTINGS, PROVIDER_LABELS } from '../services/lipReadingProvider';
+import { createMemoryCassetteStore, parseCassette, serializeCassette } from '../services/cassette';
+import { formatEvaluationReport, parseEvaluationManifest, runEvaluation } from '../services/evaluation';
+import { projectSentFrames, readProjectFile } from '../utils/project';
+import { getSamplingRate, planSampleTimes, MAX_FRAMES } from '../utils/sampling';
+import {
+    cropFrame, packContactSheets, preprocessFrames, selectInformativeFrames, CONTACT_SHEET_LAYOUTS, MAX_CANDIDATE_FRAMES,
+} from '../utils/media';
+import { createPreprocessingStep, PREPROCESSING_STEP_IDS } from '../utils/preprocessing';
+import { installNodeCanvas } from './nodeCanvas';
+import { decodeVideoFrames, probeVideo } from './nodeVideo';
+
+const FRAME_FILE_PATTERN = /\.jpe?g$/i;
+
+const USAGE = 'Usage: npm run evaluate -- <manifest.json> [--provider mock|gemini|openai] [--model name] [--base-url url] [--template file] [--preprocessing steps] [--motion-selection on|off] [--packing frames|grid-3x3|grid-4x4] [--out report.json] [--cassette file.json] [--cassette-mode replay|record] [--timeout seconds] [--retries count]';
+
+/**
+ * How clips and frame folders are turned into what the model receives, like the editor's extraction settings.
+ */
+type FramePipeline = {
+    preprocessing: PreprocessingStep[];
+    motionSelectionEnabled: boolean;
+    packing: FramePacking;
+};
+
+const parseArgs = (argv: string[]) => {
+    const flags: Record<string, string> = {};
+    const positional: string[] = [];
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith('--')) {
+            flags[argv[i].slice(2)] = argv[++i] ?? '';
+        } else {
+            positional.push(argv[i]);
+        }
+    }
+    return { flags, positional };
+};
+
+// Crops, selects, preprocesses and packs sampled frames like the editor does.
+const runPipeline = async (read: string[], times: number[], fps: number, item: EvaluationItem, pipeline: FramePipeline): Promise<FrameSequence> => {
+    const crop = item.crop;
+    const frames = crop ? await Promise.all(read.map(frame => cropFrame(frame, crop))) : read;
+
+    let sequence: FrameSequence = { frames, timestamps: times, fps: getSamplingRate(times, fps) };
+    if (pipeline.motionSelectionEnabled) {
+        ({ sequence } = await selectInformativeFrames(sequence, () => {}));
+    }
+    if (pipeline.preprocessing.length > 0) {
+        sequence = { ...sequence, frames: await preprocessFrames(sequence.frames, pipeline.preprocessing, () => {}) };
+    }
+    return pipeline.packing === 'frames' ? sequence : packContactSheets(sequence, CONTACT_SHEET_LAYOUTS[pipeline.packing]);
+};
+
+// Frames of a folder of numbered frames, sampled over the item's range like the app samples a clip.
+const loadFrameFolder = async (folder: string, fps: number, item: EvaluationItem, pipeline: FramePipeline): Promise<FrameSequence> => {
+    const files = (await readdir(folder))
+        .filter(name => FRAME_FILE_PATTERN.test(name))
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    if (files.length === 0) {
+        throw new Error(`No JPEG frames in ${folder}.`);
+    }
+    const maxFrames = pipeline.motionSelectionEnabled ? MAX_CANDIDATE_FRAMES : MAX_FRAMES;
+    const times = planSampleTimes(item.timeRange ?? { start: 0, end: files.length / fps }, fps, maxFrames)
+        .filter(time => Math.round(time * fps) < files.length);
+    if (times.length === 0) {
+        throw new Error(`The time range is outside the ${files.length} frames of ${folder}.`);
+    }
+    const read = await Promise.all(times.map(time => readFile(path.join(folder, files[Math.round(time * fps)]), 'base64')));
+    return runPipeline(read, times, fps, item, pipeline);
+};
+
+// Frames of a video clip, decoded at the times the app's extractor would take them.
+const loadClip = async (file: string, item: EvaluationItem, pipeline: FramePipeline): Promise<FrameSequence> => {
+    const info = await probeVideo(file);
+    const maxFrames = pipeline.motionSelectionEnabled ? MAX_CANDIDATE_FRAMES : MAX_FRAMES;
+    const { frames, timestamps } = await decodeVideoFrames(file, item.timeRange ?? { start: 0, end: info.duration }, info, maxFrames);
+    if (frames.length === 0) {
+        throw new Error(`No frames could be decoded in the time range of ${file}.`);
+    }
+    return runPipeline(frames, timestamps, info.fps, item, pipeline);
+};
+
+// The exact frames (or contact sheets) a project archive recorded as sent to the model.
+const loadProject = async (archive: string): Promise<FrameSequence> => {
+    const { project, frames } = await readProjectFile(new File([await readFile(archive)], path.basename(archive)));
+    if (frames.length === 0) {
+        throw new Error(`${archive} has no frames; export the project as a ZIP with frames.`);
+    }
+    const { sourceFps, packing } = project.extraction;
+    // Older projects did not record times that match their images; those are assumed one frame apart.
+    const recorded = projectSentFrames(project, frames).timestamps;
+    const timestamps = recorded.length > 0 ? recorded : frames.map((_, i) => project.timeRange.start + i / sourceFps);
+    return {
+        frames,
+        timestamps,
+        fps: getSamplingRate(timestamps, sourceFps),
+        sheetLayout: packing === 'frames' ? undefined : CONTACT_SHEET_LAYOUTS[packing],
+    };
+};
+
+const createFrameLoader = (baseDir: string, pipeline: FramePipeline) => async (item: EvaluationItem): Promise<FrameSequence> => {
+    const source = item.source;
+    const resolved = path.resolve(baseDir, source.path);
+    switch (source.type) {
+        case 'clip': return loadClip(resolved, item, pipeline);
+        case 'frames': return loadFrameFolder(resolved, source.fps, item, pipeline);
+        case 'project': return loadProject(resolved);
+    }
+};
+
+const loadTemplate = async (file: string): Promise<PromptTemplate> => {
+    const text = await readFile(file, 'utf8');
+    if (!text.trim()) {
+        throw new Error(`The template ${file} is empty.\n${USAGE}`);
+    }
+    if (!file.toLowerCase().endsWith('.json')) {
+        return { id: `file:${path.basename(file)}`, version: 1, name: path.basename(file), body: text, createdAt: Date.now() };
+    }
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        data = null;
+    }
+    const template = (typeof data === 'object' && data !== null ? data : {}) as Partial<Record<keyof PromptTemplate, unknown>>;
+    if (typeof template.id !== 'string' || typeof template.version !== 'number' || typeof template.body !== 'string') {
+        throw new Error(`${file} is not a saved prompt template: it needs a string id, a numeric version and a string body. Pass a text file to use its contents as the template.\n${USAGE}`);
+    }
+    return {
+        id: template.id,
+        version: template.version,
+        name: typeof template.name === 'string' ? template.name : template.id,
+        body: template.body,
+        createdAt: typeof template.createdAt === 'number' ? template.createdAt : Date.now(),
+    };
+};
+
+// Steps such as "contrast=1.4,sharpen"; a step without an amount gets its default one.
+const parsePreprocessing = (value: string | undefined): PreprocessingStep[] => {
+    if (!value) return [];
+    return value.split(',').map(part => {
+        const [id, amount] = part.trim().split('=');
+        if (!PREPROCESSING_STEP_IDS.includes(id as PreprocessingStepId)) {
+            throw new Error(`Unknown preprocessing step "${id}"; use ${PREPROCESSING_STEP_IDS.join(', ')}.`);
+        }
+        const step = createPreprocessingStep(id as PreprocessingStepId);
+        if (amount === undefined) return step;
+        if (!Number.isFinite(Number(amount))) {
+            throw new Error(`The amount of "${id}" must be a number.`);
+        }
+        return { ...step, amount: Number(amount) };
+    });
+};
+
+const framePipeline = (flags: Record<string, string>): FramePipeline => {
+    const packing = (flags.packing || 'frames') as FramePacking;
+    if (packing !== 'frames' && !(packing in CONTACT_SHEET_LAYOUTS)) {
+        throw new Error(`Unknown packing "${packing}"; use frames, ${Object.keys(CONTACT_SHEET_LAYOUTS).join(', ')}.`);
+    }
+    return {
+        preprocessing: parsePreprocessing(flags.preprocessing),
+        motionSelectionEnabled: flags['motion-selection'] === 'on',
+        packing,
+    };
+};
+
+const providerSettings = (flags: Record<string, string>): ProviderSettings => {
+    const id = (flags.provider || 'mock') as ProviderId;
+    if (!(id in PROVIDER_LABELS)) {
+        throw new Error(`Unknown provider "${id}"; use one of ${Object.keys(PROVIDER_LABELS).join(', ')}.`);
+    }
+    const cassetteMode: CassetteMode = !flags.cassette ? 'off' : flags['cassette-mode'] === 'record' ? 'record' : 'replay';
+    const defaults = DEFAULT_PROVIDER_SETTINGS[id];
+    return {
+        ...defaults,
+        visionModel: flags.model || defaults.visionModel,
+        baseUrl: flags['base-url'] || defaults.baseUrl,
+        apiKey: (id === 'openai' ? process.env.OPENAI_API_KEY : process.env.GEMINI_API_KEY ?? process.env.VITE_API_KEY) ?? '',
+        cassetteMode,
+        timeoutSeconds: flags.timeout ? Number(flags.timeout) : defaults.timeoutSeconds,
+        maxRetries: flags.retries ? Number(flags.retries) : defaults.maxRetries,
+    };
+};
+
+async function main() {
+    const { flags, positional } = parseArgs(process.argv.slice(2));
+    const manifestPath = positional[0];
+    if (!manifestPath) {
+        throw new Error(USAGE);
+    }
+    installNodeCanvas();
+
+    const manifest = parseEvaluationManifest(await readFile(manifestPath, 'utf8'), path.basename(manifestPath, '.json'));
+    const settings = providerSettings(flags);
+    const template = flags.template ? await loadTemplate(flags.template) : undefined;
+    const pipeline = framePipeline(flags);
+    // A cassette being recorded may not exist yet; one being replayed must.
+    const cassetteExists = flags.cassette ? await access(flags.cassette).then(() => true, () => false) : false;
+    if (settings.cassetteMode === 'replay' && !cassetteExists) {
+        throw new Error(`Cassette ${flags.cassette} not found; record it first with --cassette-mode record.`);
+    }
+    const cassette = createMemoryCassetteStore(cassetteExists ? parseCassette(await readFile(flags.cassette, 'utf8')) : []);
+
+    const report = await runEvaluation(
+        manifest,
+        createProvider(settings, {
+            cassettes: cassette,
+            onRetry: (state) => console.error(`  retry ${state.attempt}/${state.maxRetries} in ${state.delaySeconds} s: ${state.reason}`),
+        }),
+        settings.visionModel,
+        createFrameLoader(path.dirname(path.resolve(manifestPath)), pipeline),
+        { template },
+        (result, index) => console.error(`[${index + 1}/${manifest.items.length}] ${result.id}: ${result.error ? 'failed' : `WER ${(result.wer.rate * 100).toFixed(1)}%`}`)
+    );
+
+    console.log(formatEvaluationReport(report));
+    if (settings.cassetteMode === 'record') {
+        await writeFile(flags.cassette, serializeCassette(cassette.entries()));
+    }
+    if (flags.out) {
+        await writeFile(flags.out, JSON.stringify(report, null, 2));
+    }
+    if (report.failed > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,19 @@
+/**
+ * Just enough of the browser's canvas API for the frame functions of `utils/media.ts` (cropping,
+ * preprocessing, motion selection and contact sheets) to run in Node on `@napi-rs/canvas`.
+ */
+import { createCanvas, Image } from '@napi-rs/canvas';
+
+export const installNodeCanvas = () => {
+    Object.assign(globalThis, {
+        Image,
+        document: {
+            createElement: (tag: string) => {
+                if (tag !== 'canvas') {
+                    throw new Error(`Only canvases can be created outside the browser, not <${tag}>.`);
+                }
+                return createCanvas(1, 1);
+            },
+        },
+    });
+};
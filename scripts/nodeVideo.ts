@@ -0,0 +1,69 @@
+/**
+ * Video decoding for the evaluation harness: the frames the app's extractor would take from a clip,
+ * decoded with the ffmpeg binary of `@ffmpeg-installer/ffmpeg` since Node has no WebCodecs.
+ */
+import ffmpeg from '@ffmpeg-installer/ffmpeg';
+import { execFile } from 'node:child_process';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { TimeRange } from '../types';
+import { planSampleTimes } from '../utils/sampling';
+
+export type VideoInfo = {
+    fps: number;
+    duration: number;
+};
+
+// Runs ffmpeg and resolves with its log, whether or not it succeeded.
+const runFfmpeg = (args: string[]) => new Promise<{ failed: boolean; log: string }>((resolve) => {
+    execFile(ffmpeg.path, ['-hide_banner', '-nostdin', ...args], { maxBuffer: 16 * 1024 * 1024 }, (error, _stdout, stderr) => {
+        resolve({ failed: !!error, log: stderr });
+    });
+});
+
+/**
+ * Frame rate and duration of the first video stream, as ffmpeg reports them.
+ */
+export const probeVideo = async (file: string): Promise<VideoInfo> => {
+    // Without an output ffmpeg exits with an error after printing the input's streams.
+    const { log } = await runFfmpeg(['-i', file]);
+    const duration = log.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+    const stream = log.split('\n').find(line => /Stream #.*: Video:/.test(line));
+    const fps = stream?.match(/([\d.]+) fps/) ?? stream?.match(/([\d.]+) tbr/);
+    if (!duration || !fps || !(Number(fps[1]) > 0)) {
+        throw new Error(`${file} is not a video ffmpeg can read.`);
+    }
+    return {
+        fps: Number(fps[1]),
+        duration: Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3]),
+    };
+};
+
+/**
+ * Decodes the frames `planSampleTimes` picks from the range as base64 JPEGs, with the times they
+ * were taken at. Frames are counted from the start of the video, so a frame at `time` is frame
+ * `round(time * fps)`, as in the app.
+ */
+export const decodeVideoFrames = async (file: string, timeRange: TimeRange, info: VideoInfo, maxFrames: number): Promise<{ frames: string[]; timestamps: number[] }> => {
+    const times = planSampleTimes(timeRange, info.fps, maxFrames).filter(time => time < info.duration);
+    if (times.length === 0) {
+        return { frames: [], timestamps: [] };
+    }
+    const select = times.map(time => `eq(n\\,${Math.round(time * info.fps)})`).join('+');
+    const folder = await mkdtemp(path.join(tmpdir(), 'beizosgal-'));
+    try {
+        const { failed, log } = await runFfmpeg([
+            '-i', file, '-an', '-vf', `select='${select}'`, '-vsync', '0', '-frames:v', String(times.length),
+            '-q:v', '2', path.join(folder, '%05d.jpg'),
+        ]);
+        if (failed) {
+            throw new Error(`ffmpeg could not decode ${file}: ${log.trim().split('\n').pop()}`);
+        }
+        const names = (await readdir(folder)).sort();
+        const frames = await Promise.all(names.map(name => readFile(path.join(folder, name), 'base64')));
+        return { frames, timestamps: times.slice(0, frames.length) };
+    } finally {
+        await rm(folder, { recursive: true, force: true });
+    }
+};
@@ -0,0 +1,117 @@
+import { BatchJob, TranscriptionResult, TranscriptSegment } from '../types';
+import type { JobProgress } from './batchTranscription';
+import { isAbortError } from '../utils/retry';
+import { errorStatus } from '../utils/errors';
+
+export type BatchRunner = (job: BatchJob, signal: AbortSignal, onProgress: JobProgress) => Promise<{ result: TranscriptionResult; segments: TranscriptSegment[] }>;
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+export type BatchQueue = {
+    add: (jobs: BatchJob[]) => void;
+    /** Removes a job, cancelling it if it is running. */
+    remove: (id: string) => void;
+    /** Cancels a running job, or takes a pending one out of the queue. */
+    cancel: (id: string) => void;
+    /** Queues a failed or cancelled job again. */
+    retry: (id: string) => void;
+    /** Stops starting new jobs; running ones finish. */
+    pause: () => void;
+    resume: () => void;
+    setConcurrency: (concurrency: number) => void;
+    /** Removes the finished, failed and cancelled jobs. */
+    clearFinished: () => void;
+    /** Notes a warning on a job without stopping it. */
+    warn: (id: string, warning: string) => void;
+};
+
+/**
+ * Runs jobs through `run`, at most `concurrency` at a time, in the order they were added.
+ * The queue starts paused; `onChange` receives the whole job list after every change.
+ */
+export function createBatchQueue(run: BatchRunner, onChange: (jobs: BatchJob[]) => void): BatchQueue {
+    let jobs: BatchJob[] = [];
+    let concurrency = 1;
+    let paused = true;
+    const controllers = new Map<string, AbortController>();
+
+    const patch = (id: string, changes: Partial<BatchJob>) => {
+        jobs = jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+        onChange(jobs);
+    };
+
+    const start = async (job: BatchJob) => {
+        const controller = new AbortController();
+        controllers.set(job.id, controller);
+        patch(job.id, { status: 'running', progress: 0, message: 'Comezando...', warning: undefined, result: undefined, segments: undefined });
+        try {
+            const { result, segments } = await run(job, controller.signal, (progress, message) => {
+                if (!controller.signal.aborted) patch(job.id, { progress, message });
+            });
+            patch(job.id, { status: 'done', progress: 1, message: 'Completado', result, segments });
+        } catch (error) {
+            if (isAbortError(error)) {
+                patch(job.id, { status: 'cancelled', message: 'Cancelado' });
+            } else {
+                console.error(`Batch job ${job.id} failed:`, error);
+                patch(job.id, { status: 'error', message: errorStatus(error).message });
+            }
+        } finally {
+            controllers.delete(job.id);
+            pump();
+        }
+    };
+
+    // Starts pending jobs until the concurrency is used up.
+    const pump = () => {
+        if (paused) return;
+        while (controllers.size < concurrency) {
+            const next = jobs.find(job => job.status === 'pending');
+            if (!next) return;
+            start(next);
+        }
+    };
+
+    return {
+        add(added) {
+            jobs = [...jobs, ...added];
+            onChange(jobs);
+            pump();
+        },
+        remove(id) {
+            controllers.get(id)?.abort();
+            jobs = jobs.filter(job => job.id !== id);
+            onChange(jobs);
+        },
+        cancel(id) {
+            const controller = controllers.get(id);
+            if (controller) {
+                controller.abort();
+            } else if (jobs.some(job => job.id === id && job.status === 'pending')) {
+                patch(id, { status: 'cancelled', message: 'Cancelado' });
+            }
+        },
+        retry(id) {
+            patch(id, { status: 'pending', progress: 0, message: '' });
+            pump();
+        },
+        pause() {
+            paused = true;
+        },
+        resume() {
+            paused = false;
+            pump();
+        },
+        setConcurrency(value) {
+            concurrency = Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Math.round(value)));
+            pump();
+        },
+        clearFinished() {
+            jobs = jobs.filter(job => job.status === 'pending' || job.status === 'running');
+            onChange(jobs);
+        },
+        warn(id, warning) {
+            if (jobs.some(job => job.id === id && job.warning !== warning)) patch(id, { warning });
+        },
+    };
+}
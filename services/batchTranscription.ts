@@ -0,0 +1,101 @@
+import { BatchJob, CropKeyframe, FrameSequence, TimeRange, TranscriptionOptions, TranscriptionResult, TranscriptSegment } from '../types';
+import type { LipReadingProvider } from './lipReadingProvider';
+import { transcribeEnsemble } from './ensemble';
+import { mergeWindowResults } from './transcriptionResult';
+import {
+    extractFramesFromVideo, trackCropThroughVideo, selectInformativeFrames, preprocessFrames, packContactSheets,
+    CONTACT_SHEET_LAYOUTS, MAX_CANDIDATE_FRAMES,
+} from '../utils/media';
+import { splitTimeRange, stitchSegments } from '../utils/chunking';
+
+/**
+ * Reports a job's overall progress (0-1) with what it is doing.
+ */
+export type JobProgress = (progress: number, message: string) => void;
+
+// Extracts, selects and preprocesses the frames of one window, like the editor does.
+const prepareFrames = async (job: BatchJob, range: TimeRange, keyframes: CropKeyframe[], signal: AbortSignal, onProgress: (progress: number) => void) => {
+    const { settings } = job;
+    const extracted = await extractFramesFromVideo(
+        job.file,
+        onProgress,
+        range,
+        keyframes,
+        job.sourceFps,
+        settings.motionSelectionEnabled ? MAX_CANDIDATE_FRAMES : undefined,
+        signal
+    );
+    const sequence = settings.motionSelectionEnabled ? (await selectInformativeFrames(extracted, () => {})).sequence : extracted;
+    signal.throwIfAborted();
+    if (settings.preprocessing.length === 0) return sequence;
+    return { ...sequence, frames: await preprocessFrames(sequence.frames, settings.preprocessing, () => {}) };
+};
+
+/**
+ * Runs a batch job without user interaction: tracks the mouth if asked, then extracts, packs and
+ * transcribes each long-form window (or the whole range) with the job's settings.
+ * `checkBudget` runs before each window and throws to stop the job, e.g. once the spending budget
+ * would be exceeded.
+ */
+export async function transcribeJob(
+    job: BatchJob,
+    provider: LipReadingProvider,
+    signal: AbortSignal,
+    onProgress: JobProgress,
+    onUsage?: TranscriptionOptions['onUsage'],
+    checkBudget?: (window: TimeRange) => void,
+): Promise<{ result: TranscriptionResult; segments: TranscriptSegment[] }> {
+    const { settings } = job;
+    let keyframes = settings.cropKeyframes;
+    if (settings.trackingEnabled) {
+        keyframes = await trackCropThroughVideo(
+            job.file,
+            (p) => onProgress(0, `Seguindo a boca... ${Math.round(p * 100)}%`),
+            settings.timeRange,
+            keyframes,
+            job.sourceFps,
+            signal
+        );
+    }
+
+    const windows = settings.longFormEnabled ? splitTimeRange(settings.timeRange) : [settings.timeRange];
+    const layout = settings.framePacking === 'frames' ? null : CONTACT_SHEET_LAYOUTS[settings.framePacking];
+    const pack = (sequence: FrameSequence) => (layout ? packContactSheets(sequence, layout) : Promise.resolve(sequence));
+    const options: TranscriptionOptions = { hints: settings.contextHints, template: settings.template, translationTarget: settings.translationTarget, signal, onUsage };
+    const results: TranscriptionResult[] = [];
+    const frameOffsets: number[] = [];
+    let sentFrames = 0;
+
+    for (const [index, window] of windows.entries()) {
+        const part = windows.length > 1 ? ` (tramo ${index + 1}/${windows.length})` : '';
+        checkBudget?.(window);
+        // Extraction takes the first half of each window's share of the progress, the model the rest.
+        const frames = await prepareFrames(job, window, keyframes, signal, (p) =>
+            onProgress((index + p / 2) / windows.length, `Extraendo fotogramas${part}...`));
+        const sequence = await pack(frames);
+        onProgress((index + 0.5) / windows.length, `Transcribindo${part}...`);
+        const result = settings.ensembleSize > 1
+            ? (await transcribeEnsemble(
+                provider,
+                frames,
+                settings.language,
+                settings.ensembleSize,
+                (s) => (s === frames ? Promise.resolve(sequence) : pack(s)),
+                () => {},
+                options
+            )).result
+            : await provider.transcribeVideoFromFrames(sequence, settings.language, options);
+        frameOffsets.push(sentFrames);
+        sentFrames += sequence.timestamps.length;
+        results.push(result);
+    }
+
+    if (windows.length === 1) {
+        const [result] = results;
+        return { result, segments: result.noSpeech ? [] : [{ ...settings.timeRange, text: result.transcript }] };
+    }
+    return {
+        result: mergeWindowResults(windows, results, frameOffsets),
+        segments: stitchSegments(windows, results.map(r => (r.noSpeech ? '' : r.transcript))),
+    };
+}
@@ -0,0 +1,96 @@
+import { CassetteEntry, CassetteRequest, FrameSequence, ProviderSettings, TranscriptionOptions, TranscriptionResult } from '../types';
+import type { LipReadingProvider } from './lipReadingProvider';
+import { buildLipReadingPrompt } from './prompt';
+import { sha256Hex } from '../utils/hash';
+
+/**
+ * Where recorded calls are kept: IndexedDB in the browser (`cassetteStore.ts`), a JSON file in Node.
+ */
+export interface CassetteStore {
+    get(fingerprint: string): Promise<CassetteEntry | undefined>;
+    put(entry: CassetteEntry): Promise<void>;
+}
+
+const CASSETTE_FORMAT = 'beizosgal-cassette';
+
+/**
+ * A cassette kept in memory, e.g. loaded from a file; `entries` returns everything to save back.
+ */
+export const createMemoryCassetteStore = (initial: CassetteEntry[] = []): CassetteStore & { entries: () => CassetteEntry[] } => {
+    const recorded = new Map(initial.map(entry => [entry.fingerprint, entry]));
+    return {
+        async get(fingerprint) {
+            return recorded.get(fingerprint);
+        },
+        async put(entry) {
+            recorded.set(entry.fingerprint, entry);
+        },
+        entries: () => [...recorded.values()],
+    };
+};
+
+export const serializeCassette = (entries: CassetteEntry[]): string =>
+    JSON.stringify({ format: CASSETTE_FORMAT, version: 1, entries }, null, 2);
+
+export const parseCassette = (json: string): CassetteEntry[] => {
+    const data = JSON.parse(json);
+    if (data?.format !== CASSETTE_FORMAT || data.version !== 1 || !Array.isArray(data.entries)) {
+        throw new Error('The file is not a BeizosGal cassette.');
+    }
+    return data.entries as CassetteEntry[];
+};
+
+const fingerprintOf = (request: CassetteRequest) => sha256Hex(JSON.stringify(request));
+
+/**
+ * Wraps a provider so every call is looked up by its fingerprint: the provider, model, a hash of
+ * the exact prompt (or text to speak), a hash of every frame and the sampling config.
+ * In `record` mode calls go through and are stored; in `replay` mode the wrapped provider is never
+ * called and a request that was not recorded fails instead of reaching the network.
+ */
+export function withCassette(provider: LipReadingProvider, settings: ProviderSettings, store: CassetteStore): LipReadingProvider {
+    const replay = async <T>(request: CassetteRequest, call: () => Promise<T>): Promise<T> => {
+        const fingerprint = await fingerprintOf(request);
+        if (settings.cassetteMode === 'replay') {
+            const entry = await store.get(fingerprint);
+            if (!entry) {
+                throw new Error(
+                    `Non hai ningunha resposta gravada para esta petición (${request.kind}, ${request.provider}/${request.model}, pegada ${fingerprint.slice(0, 12)}). ` +
+                    'Grávaa primeiro ou desactiva o modo reprodución.'
+                );
+            }
+            return entry.response as T;
+        }
+        const response = await call();
+        await store.put({ fingerprint, request, response: response as TranscriptionResult | string, recordedAt: new Date().toISOString() });
+        return response;
+    };
+
+    return {
+        id: provider.id,
+
+        async transcribeVideoFromFrames(sequence: FrameSequence, language: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+            const request: CassetteRequest = {
+                kind: 'transcription',
+                provider: provider.id,
+                model: settings.visionModel,
+                promptHash: await sha256Hex(buildLipReadingPrompt(language, sequence, options)),
+                frameHashes: await Promise.all(sequence.frames.map(frame => sha256Hex(frame))),
+                config: { temperature: options.temperature },
+            };
+            return replay(request, () => provider.transcribeVideoFromFrames(sequence, language, options));
+        },
+
+        async generateSpeech(text: string, signal?: AbortSignal): Promise<string> {
+            const request: CassetteRequest = {
+                kind: 'speech',
+                provider: provider.id,
+                model: settings.ttsModel,
+                promptHash: await sha256Hex(text),
+                frameHashes: [],
+                config: {},
+            };
+            return replay(request, () => provider.generateSpeech(text, signal));
+        },
+    };
+}
@@ -0,0 +1,44 @@
+import { CassetteEntry } from '../types';
+import type { CassetteStore } from './cassette';
+import { openDatabase, requestToPromise, CASSETTE_STORE } from './database';
+
+/**
+ * The browser's cassette, kept in IndexedDB next to the history.
+ */
+export const indexedDbCassetteStore: CassetteStore = {
+    async get(fingerprint) {
+        const db = await openDatabase();
+        const store = db.transaction(CASSETTE_STORE, 'readonly').objectStore(CASSETTE_STORE);
+        return await requestToPromise(store.get(fingerprint)) as CassetteEntry | undefined;
+    },
+    async put(entry) {
+        const db = await openDatabase();
+        const store = db.transaction(CASSETTE_STORE, 'readwrite').objectStore(CASSETTE_STORE);
+        await requestToPromise(store.put(entry));
+    },
+};
+
+export const listCassetteEntries = async (): Promise<CassetteEntry[]> => {
+    const db = await openDatabase();
+    const store = db.transaction(CASSETTE_STORE, 'readonly').objectStore(CASSETTE_STORE);
+    return await requestToPromise(store.getAll()) as CassetteEntry[];
+};
+
+/**
+ * Adds the entries of an imported cassette, replacing recordings with the same fingerprint.
+ */
+export const importCassetteEntries = async (entries: CassetteEntry[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(CASSETTE_STORE, 'readwrite');
+    entries.forEach(entry => transaction.objectStore(CASSETTE_STORE).put(entry));
+    await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error ?? new Error('Could not import the cassette.'));
+    });
+};
+
+export const clearCassette = async (): Promise<void> => {
+    const db = await openDatabase();
+    const store = db.transaction(CASSETTE_STORE, 'readwrite').objectStore(CASSETTE_STORE);
+    await requestToPromise(store.clear());
+};
@@ -0,0 +1,166 @@
+import { CostEstimate, DailySpending, FramePacking, FrameSequence, ProviderId, SpendingBudget, TimeRange, TokenUsage, UsageSummary } from '../types';
+import { ENSEMBLE_PASSES } from './ensemble';
+import { splitTimeRange } from '../utils/chunking';
+import { getSamplingRate, planSampleTimes, MAX_FRAMES } from '../utils/sampling';
+import { getOutputSize, CONTACT_SHEET_LAYOUTS, CONTACT_SHEET_WIDTH, MAX_CANDIDATE_FRAMES } from '../utils/media';
+
+/**
+ * Reference prices in US dollars per million tokens, matched against the model name in order.
+ * Models not listed (e.g. local ones behind an OpenAI-compatible server) have no known price.
+ */
+const MODEL_PRICES: { pattern: RegExp; input: number; output: number }[] = [
+    { pattern: /^gemini-2\.5-pro/, input: 1.25, output: 10 },
+    { pattern: /^gemini-2\.5-flash-lite/, input: 0.1, output: 0.4 },
+    { pattern: /^gemini-2\.5-flash/, input: 0.3, output: 2.5 },
+    { pattern: /^gemini-2\.0-flash/, input: 0.1, output: 0.4 },
+    { pattern: /^gpt-4o-mini/, input: 0.15, output: 0.6 },
+    { pattern: /^gpt-4o/, input: 2.5, output: 10 },
+    { pattern: /^gpt-4\.1-mini/, input: 0.4, output: 1.6 },
+    { pattern: /^gpt-4\.1/, input: 2, output: 8 },
+];
+
+/**
+ * Tokens assumed per answer: the JSON transcript with per-word frames plus, for Gemini 2.5,
+ * its reasoning, which is billed as output.
+ */
+const ESTIMATED_OUTPUT_TOKENS = 1000;
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Typical size of the extracted JPEGs, measured on upscaled mouth crops at the frame quality.
+ */
+const JPEG_BYTES_PER_PIXEL = 0.3;
+
+const modelPrice = (provider: ProviderId, model: string) =>
+    provider === 'mock' ? { input: 0, output: 0 } : MODEL_PRICES.find(price => price.pattern.test(model)) ?? null;
+
+/**
+ * Input tokens of one image: Gemini bills 258 per 768px tile (a single one up to 384px), OpenAI
+ * 85 plus 170 per 512px tile at high detail.
+ */
+const imageTokens = (provider: ProviderId, width: number, height: number) => {
+    switch (provider) {
+        case 'gemini':
+            return width <= 384 && height <= 384 ? 258 : Math.ceil(width / 768) * Math.ceil(height / 768) * 258;
+        case 'openai':
+            return 85 + 170 * Math.ceil(width / 512) * Math.ceil(height / 512);
+        case 'mock':
+            return 0;
+    }
+};
+
+/**
+ * Cost in US dollars of the given tokens, or null when the model's price is unknown.
+ */
+export const usageCost = (provider: ProviderId, model: string, usage: TokenUsage): number | null => {
+    const price = modelPrice(provider, model);
+    return price && (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1e6;
+};
+
+export const EMPTY_USAGE: UsageSummary = { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+
+export const addUsage = (summary: UsageSummary, usage: TokenUsage, cost: number | null): UsageSummary => ({
+    requests: summary.requests + 1,
+    inputTokens: summary.inputTokens + usage.inputTokens,
+    outputTokens: summary.outputTokens + usage.outputTokens,
+    cost: summary.cost === null || cost === null ? null : summary.cost + cost,
+});
+
+export type CostPlan = {
+    provider: ProviderId;
+    model: string;
+    timeRange: TimeRange;
+    sourceFps: number;
+    /** Width / height of the crop. */
+    cropAspect: number;
+    longFormEnabled: boolean;
+    motionSelectionEnabled: boolean;
+    framePacking: FramePacking;
+    ensembleSize: number;
+    /** Crops transcribed separately in multi-speaker mode (1 otherwise), all assumed the shape of `cropAspect`. */
+    speakerCount?: number;
+    /** Builds the prompt sent with a sequence; only the length of the result is used. */
+    buildPrompt: (sequence: FrameSequence) => string;
+};
+
+/**
+ * Estimates the requests, images, payload, tokens and price of a transcription run without
+ * extracting anything: the frame timestamps are planned like the extraction does, and frames are
+ * assumed to survive motion selection (so the estimate is an upper bound when it is on).
+ */
+export const estimateTranscriptionCost = (plan: CostPlan): CostEstimate => {
+    const windows = plan.longFormEnabled ? splitTimeRange(plan.timeRange) : [plan.timeRange];
+    const passes = plan.ensembleSize > 1 ? ENSEMBLE_PASSES.slice(0, plan.ensembleSize) : [ENSEMBLE_PASSES[0]];
+    const frameSize = getOutputSize(plan.cropAspect);
+    const layout = plan.framePacking === 'frames' ? undefined : CONTACT_SHEET_LAYOUTS[plan.framePacking];
+
+    // Sizes of the images sent for `count` frames: the frames themselves or their contact sheets.
+    const imageSizes = (count: number) => {
+        if (!layout) return Array.from({ length: count }, () => frameSize);
+        const perSheet = layout.columns * layout.rows;
+        const tileWidth = Math.floor(CONTACT_SHEET_WIDTH / layout.columns);
+        const tileHeight = Math.round(tileWidth * frameSize.height / frameSize.width);
+        return Array.from({ length: Math.ceil(count / perSheet) }, (_, sheet) => ({
+            width: tileWidth * layout.columns,
+            height: tileHeight * Math.ceil(Math.min(perSheet, count - sheet * perSheet) / layout.columns),
+        }));
+    };
+
+    const estimate: CostEstimate = { requests: 0, images: 0, payloadBytes: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    for (const window of windows) {
+        const candidates = planSampleTimes(window, plan.sourceFps, plan.motionSelectionEnabled ? MAX_CANDIDATE_FRAMES : MAX_FRAMES);
+        // Which frames motion selection keeps is unknown here; the prompt length only depends on how many.
+        const timestamps = candidates.slice(0, MAX_FRAMES);
+        for (const pass of passes) {
+            const sent = pass.frames === 'all' ? timestamps : timestamps.filter((_, i) => i % 2 === (pass.frames === 'even' ? 0 : 1));
+            const images = imageSizes(sent.length);
+            const prompt = plan.buildPrompt({
+                frames: images.map(() => ''),
+                timestamps: sent,
+                fps: getSamplingRate(sent, plan.sourceFps),
+                sheetLayout: layout,
+            });
+            estimate.requests++;
+            estimate.images += images.length;
+            estimate.payloadBytes += images.reduce((sum, size) => sum + Math.round(size.width * size.height * JPEG_BYTES_PER_PIXEL * 4 / 3), 0);
+            estimate.inputTokens += Math.ceil(prompt.length / CHARS_PER_TOKEN)
+                + images.reduce((sum, size) => sum + imageTokens(plan.provider, size.width, size.height), 0);
+            estimate.outputTokens += ESTIMATED_OUTPUT_TOKENS;
+        }
+    }
+    const speakers = plan.speakerCount ?? 1;
+    estimate.requests *= speakers;
+    estimate.images *= speakers;
+    estimate.payloadBytes *= speakers;
+    estimate.inputTokens *= speakers;
+    estimate.outputTokens *= speakers;
+    estimate.cost = usageCost(plan.provider, plan.model, estimate);
+    return estimate;
+};
+
+/**
+ * Today's date as stored in `DailySpending`.
+ */
+export const todayKey = (now: Date = new Date()) =>
+    `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+/**
+ * What has been spent today; a record from another day counts as nothing.
+ */
+export const spentToday = (spending: DailySpending) => (spending.date === todayKey() ? spending.cost : 0);
+
+/**
+ * Describes the limit that spending `cost` more would exceed, or null when it fits in both.
+ */
+export const findExceededLimit = (budget: SpendingBudget, cost: number, sessionSpent: number, dailySpent: number): string | null => {
+    if (budget.sessionLimit > 0 && sessionSpent + cost > budget.sessionLimit) {
+        return `${formatCost(sessionSpent)} gastados nesta sesión + ${formatCost(cost)} estimados superan o límite de ${formatCost(budget.sessionLimit)}.`;
+    }
+    if (budget.dailyLimit > 0 && dailySpent + cost > budget.dailyLimit) {
+        return `${formatCost(dailySpent)} gastados hoxe + ${formatCost(cost)} estimados superan o límite diario de ${formatCost(budget.dailyLimit)}.`;
+    }
+    return null;
+};
+
+export const formatCost = (cost: number) => `${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)} $`;
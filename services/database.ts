@@ -0,0 +1,43 @@
+const DB_NAME = 'beizosgal';
+const DB_VERSION = 2;
+
+export const HISTORY_STORE = 'history';
+export const CASSETTE_STORE = 'cassettes';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates or upgrades) the app's IndexedDB database.
+ * The connection is shared by every store module.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (databasePromise) return databasePromise;
+
+    databasePromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            return reject(new Error('IndexedDB is not available in this browser.'));
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+                const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id', autoIncrement: true });
+                store.createIndex('fileHash', 'fileHash');
+            }
+            if (!db.objectStoreNames.contains(CASSETTE_STORE)) {
+                db.createObjectStore(CASSETTE_STORE, { keyPath: 'fingerprint' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Could not open IndexedDB.'));
+    });
+    databasePromise.catch(() => { databasePromise = null; });
+
+    return databasePromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed.'));
+    });
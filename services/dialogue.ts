@@ -0,0 +1,73 @@
+import { SpeakerTranscript, TranscriptionResult, TranscriptSegment } from '../types';
+import { NO_SPEECH_RESULT } from './transcriptionResult';
+
+/**
+ * A speaker's transcription with the media time (in seconds) of every frame that was sent,
+ * which the word frame numbers index.
+ */
+export type DialogueSource = SpeakerTranscript & { timestamps: number[] };
+
+/**
+ * Default label of the speaker at `index`: Falante A, Falante B…
+ */
+export const speakerLabel = (index: number) => `Falante ${String.fromCharCode(65 + (index % 26))}`;
+
+type Fragment = { speaker: number; start: number; end: number; text: string };
+
+// Timed pieces of one speaker's speech: its words when it was sent as a single window, else its segments.
+// Long-form results repeat the words of overlapping windows, so their stitched segments are used instead.
+const speakerFragments = (source: DialogueSource, speaker: number): Fragment[] => {
+    if (source.result.noSpeech) return [];
+    const { words } = source.result;
+    const { timestamps, segments } = source;
+    if (segments.length !== 1 || words.length === 0 || timestamps.length === 0) {
+        return segments.map(segment => ({ speaker, ...segment }));
+    }
+    const frameTime = (frame: number) => timestamps[Math.min(timestamps.length, Math.max(1, frame)) - 1];
+    return words.map(word => ({
+        speaker,
+        start: frameTime(word.startFrame),
+        // A word lasts until the frame after its last one.
+        end: word.endFrame < timestamps.length ? frameTime(word.endFrame + 1) : segments[0].end,
+        text: word.text,
+    }));
+};
+
+/**
+ * Interleaves the speakers' speech by time into dialogue turns, one segment per turn with the
+ * speaker's label in front of the text, so subtitles carry who is talking.
+ */
+export const buildDialogue = (sources: DialogueSource[]): TranscriptSegment[] => {
+    const fragments = sources
+        .flatMap(speakerFragments)
+        .sort((a, b) => a.start - b.start || a.speaker - b.speaker);
+
+    const turns: Fragment[] = [];
+    for (const fragment of fragments) {
+        const last = turns[turns.length - 1];
+        if (last && last.speaker === fragment.speaker) {
+            last.end = Math.max(last.end, fragment.end);
+            last.text = `${last.text} ${fragment.text}`;
+        } else {
+            turns.push({ ...fragment });
+        }
+    }
+    return turns.map(turn => ({ start: turn.start, end: turn.end, text: `${sources[turn.speaker].label}: ${turn.text.trim()}` }));
+};
+
+/**
+ * The dialogue as a single result: one line per turn and, when any speaker needed one, the
+ * translation of each speaker. Words are left out since their frame numbers refer to different crops.
+ */
+export const dialogueResult = (transcripts: SpeakerTranscript[], turns: TranscriptSegment[]): TranscriptionResult => {
+    if (turns.length === 0) return NO_SPEECH_RESULT;
+    const speaking = transcripts.filter(t => !t.result.noSpeech);
+    const translations = speaking.filter(t => t.result.translation).map(t => `${t.label}: ${t.result.translation}`);
+    return {
+        transcript: turns.map(turn => turn.text).join('\n'),
+        detectedLanguage: speaking.find(t => t.result.detectedLanguage)?.result.detectedLanguage ?? '',
+        translation: translations.length > 0 ? translations.join('\n') : null,
+        words: [],
+        noSpeech: false,
+    };
+};
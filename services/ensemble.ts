@@ -0,0 +1,81 @@
+import { EnsembleHypothesis, FrameSequence, PromptVariant, TranscriptionOptions, TranscriptionResult } from '../types';
+import type { LipReadingProvider } from './lipReadingProvider';
+import { buildConsensus } from '../utils/consensus';
+import { getSamplingRate } from '../utils/sampling';
+
+type EnsemblePass = {
+    label: string;
+    promptVariant: PromptVariant;
+    temperature?: number;
+    /** Which frames the pass sees: all of them, or every other one. */
+    frames: 'all' | 'even' | 'odd';
+};
+
+/**
+ * The passes of an ensemble run, in order; a run of N passes uses the first N.
+ */
+export const ENSEMBLE_PASSES: EnsemblePass[] = [
+    { label: 'Base', promptVariant: 'default', temperature: 0, frames: 'all' },
+    { label: 'Fonética', promptVariant: 'phonetic', temperature: 0.4, frames: 'all' },
+    { label: 'Fotogramas pares', promptVariant: 'default', temperature: 0.4, frames: 'even' },
+    { label: 'Conservadora', promptVariant: 'conservative', temperature: 0.7, frames: 'all' },
+    { label: 'Fotogramas impares', promptVariant: 'default', temperature: 0.7, frames: 'odd' },
+];
+
+export const ENSEMBLE_SIZES = [3, 5];
+
+// Every other frame starting at `offset`, with the index each one had in the full sequence.
+const subsample = (sequence: FrameSequence, offset: number) => {
+    const indices = sequence.frames.map((_, i) => i).filter(i => i % 2 === offset);
+    const timestamps = indices.map(i => sequence.timestamps[i]);
+    return {
+        indices,
+        sequence: {
+            frames: indices.map(i => sequence.frames[i]),
+            timestamps,
+            fps: getSamplingRate(timestamps, sequence.fps),
+        },
+    };
+};
+
+// Maps word frame numbers of a subsampled pass back onto the full sequence.
+const remapFrames = (result: TranscriptionResult, indices: number[]): TranscriptionResult => ({
+    ...result,
+    words: result.words.map(word => ({
+        ...word,
+        startFrame: (indices[word.startFrame - 1] ?? indices[indices.length - 1]) + 1,
+        endFrame: (indices[word.endFrame - 1] ?? indices[indices.length - 1]) + 1,
+    })),
+});
+
+/**
+ * Transcribes the same frames `passCount` times with different prompt variants, temperatures and
+ * frame subsets, one request after another, and votes a consensus (see `buildConsensus`).
+ * `pack` turns frames into what is sent (e.g. contact sheets); word frame numbers in every
+ * hypothesis refer to the full `frames` sequence. `options` (e.g. context hints) apply to every pass.
+ */
+export async function transcribeEnsemble(
+    provider: LipReadingProvider,
+    frames: FrameSequence,
+    language: string,
+    passCount: number,
+    pack: (sequence: FrameSequence) => Promise<FrameSequence>,
+    onPass: (index: number, pass: EnsemblePass) => void,
+    options: TranscriptionOptions = {},
+): Promise<{ result: TranscriptionResult; hypotheses: EnsembleHypothesis[] }> {
+    const hypotheses: EnsembleHypothesis[] = [];
+
+    for (const [index, pass] of ENSEMBLE_PASSES.slice(0, passCount).entries()) {
+        onPass(index, pass);
+        const subset = pass.frames === 'all' ? null : subsample(frames, pass.frames === 'even' ? 0 : 1);
+        const sent = await pack(subset ? subset.sequence : frames);
+        const result = await provider.transcribeVideoFromFrames(sent, language, {
+            ...options,
+            promptVariant: pass.promptVariant,
+            temperature: pass.temperature,
+        });
+        hypotheses.push({ label: pass.label, result: subset ? remapFrames(result, subset.indices) : result });
+    }
+
+    return { result: buildConsensus(hypotheses.map(h => h.result)), hypotheses };
+}
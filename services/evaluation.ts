@@ -0,0 +1,160 @@
+import {
+    EvaluationItem, EvaluationItemResult, EvaluationManifest, EvaluationReport, EvaluationSource, FrameSequence,
+    PromptTemplate, TranscriptionOptions,
+} from '../types';
+import type { LipReadingProvider } from './lipReadingProvider';
+import { DEFAULT_PROMPT_TEMPLATE, templateRef } from './promptTemplates';
+import { characterErrorRate, combineErrorRates, wordErrorRate } from '../utils/errorRate';
+
+/**
+ * Turns a manifest item into the frames sent to the model.
+ */
+export type FrameLoader = (item: EvaluationItem) => Promise<FrameSequence>;
+
+const SOURCE_TYPES = ['clip', 'frames', 'project'];
+
+// A manifest item as parsed from JSON, before its fields are checked.
+type ManifestEntry = {
+    id?: unknown;
+    reference?: unknown;
+    language?: unknown;
+    source?: { type?: unknown; path?: unknown; fps?: unknown } | null;
+    timeRange?: { start?: unknown; end?: unknown } | null;
+    crop?: { x?: unknown; y?: unknown; width?: unknown; height?: unknown } | null;
+} | null;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const parseItem = (value: unknown, index: number): EvaluationItem => {
+    const entry = value as ManifestEntry;
+    const { id, reference, language, source, timeRange, crop } = entry ?? {};
+    const label = `Item ${index + 1}${typeof id === 'string' ? ` ("${id}")` : ''}`;
+    if (typeof id !== 'string' || !id) throw new Error(`${label} has no id.`);
+    if (typeof reference !== 'string') throw new Error(`${label} has no reference transcript.`);
+    const sourcePath = source?.path;
+    if (!SOURCE_TYPES.includes(source?.type as string) || typeof sourcePath !== 'string') {
+        throw new Error(`${label} needs a source of type ${SOURCE_TYPES.join(', ')} with a path.`);
+    }
+    let itemSource: EvaluationSource = { type: source?.type === 'clip' ? 'clip' : 'project', path: sourcePath };
+    if (source?.type === 'frames') {
+        if (!isNumber(source.fps) || !(source.fps > 0)) throw new Error(`${label} is a frame folder without its fps.`);
+        itemSource = { type: 'frames', path: sourcePath, fps: source.fps };
+    }
+
+    const item: EvaluationItem = {
+        id,
+        source: itemSource,
+        reference,
+        language: typeof language === 'string' ? language : 'auto',
+    };
+    if (timeRange) {
+        const { start, end } = timeRange;
+        if (!isNumber(start) || !isNumber(end) || !(end > start)) throw new Error(`${label} has an empty time range.`);
+        item.timeRange = { start, end };
+    }
+    if (crop) {
+        const { x, y, width, height } = crop;
+        if (!isNumber(x) || !isNumber(y) || !isNumber(width) || !isNumber(height) || !(width > 0 && height > 0)) {
+            throw new Error(`${label} has an empty crop.`);
+        }
+        item.crop = { x, y, width, height };
+    } else if (itemSource.type === 'clip') {
+        throw new Error(`${label} is a clip without its mouth crop.`);
+    }
+    return item;
+};
+
+/**
+ * Parses and checks a dataset manifest, naming the first invalid item.
+ */
+export const parseEvaluationManifest = (json: string, fallbackName: string): EvaluationManifest => {
+    const data: unknown = JSON.parse(json);
+    const manifest = data as { name?: unknown; items?: unknown } | null;
+    const entries = Array.isArray(data) ? data : manifest?.items;
+    if (!Array.isArray(entries) || entries.length === 0) {
+        throw new Error('The manifest has no items.');
+    }
+    const items = entries.map(parseItem);
+    if (new Set(items.map(item => item.id)).size !== items.length) {
+        throw new Error('Item ids must be unique.');
+    }
+    return {
+        name: typeof manifest?.name === 'string' ? manifest.name : fallbackName,
+        items,
+    };
+};
+
+/**
+ * Runs every item through `provider` one after another and scores the transcripts. A failing
+ * item is reported with its error and scored as an empty transcript, so it is never silently skipped.
+ */
+export async function runEvaluation(
+    manifest: EvaluationManifest,
+    provider: LipReadingProvider,
+    model: string,
+    loadFrames: FrameLoader,
+    options: TranscriptionOptions = {},
+    onItem?: (result: EvaluationItemResult, index: number) => void,
+): Promise<EvaluationReport> {
+    const items: EvaluationItemResult[] = [];
+
+    for (const [index, item] of manifest.items.entries()) {
+        let hypothesis = '';
+        let frameCount = 0;
+        let error: string | undefined;
+        try {
+            const sequence = await loadFrames(item);
+            frameCount = sequence.frames.length;
+            const result = await provider.transcribeVideoFromFrames(sequence, item.language, options);
+            hypothesis = result.noSpeech ? '' : result.transcript;
+        } catch (e) {
+            error = e instanceof Error ? e.message : String(e);
+        }
+        const itemResult: EvaluationItemResult = {
+            id: item.id,
+            reference: item.reference,
+            hypothesis,
+            frameCount,
+            wer: wordErrorRate(item.reference, hypothesis),
+            cer: characterErrorRate(item.reference, hypothesis),
+            ...(error !== undefined && { error }),
+        };
+        items.push(itemResult);
+        onItem?.(itemResult, index);
+    }
+
+    const template: PromptTemplate = options.template ?? DEFAULT_PROMPT_TEMPLATE;
+    return {
+        manifest: manifest.name,
+        createdAt: new Date().toISOString(),
+        provider: provider.id,
+        model,
+        promptTemplate: templateRef(template),
+        items,
+        wer: combineErrorRates(items.map(item => item.wer)),
+        cer: combineErrorRates(items.map(item => item.cer)),
+        failed: items.filter(item => item.error !== undefined).length,
+    };
+}
+
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`.padStart(7);
+
+/**
+ * Plain-text table of a report: one line per item and the corpus totals.
+ */
+export const formatEvaluationReport = (report: EvaluationReport): string => {
+    const idWidth = Math.max(4, ...report.items.map(item => item.id.length));
+    const lines = [
+        `${report.manifest} · ${report.provider}/${report.model} · prompt "${report.promptTemplate.name}" v${report.promptTemplate.version}`,
+        '',
+        `${'item'.padEnd(idWidth)}  frames      WER      CER  hypothesis`,
+        ...report.items.map(item =>
+            `${item.id.padEnd(idWidth)}  ${String(item.frameCount).padStart(6)}  ${percent(item.wer.rate)}  ${percent(item.cer.rate)}  ${item.error ? `ERROR: ${item.error}` : item.hypothesis}`),
+        '',
+        `${'total'.padEnd(idWidth)}  ${' '.repeat(6)}  ${percent(report.wer.rate)}  ${percent(report.cer.rate)}  ${report.wer.errors}/${report.wer.length} words, ${report.cer.errors}/${report.cer.length} characters`,
+    ];
+    if (report.failed > 0) {
+        lines.push(`${report.failed} of ${report.items.length} items failed and count as empty transcripts.`);
+    }
+    return lines.join('\n');
+};
@@ -1,86 +1,108 @@
-import { GoogleGenAI, Modality } from '@google/genai';
-
-if (!import.meta.env.VITE_API_KEY) {
-    throw new Error("VITE_API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
-const visionModel = 'gemini-2.5-pro';
-const ttsModel = 'gemini-2.5-flash-preview-tts';
-
-const LIP_READING_PROMPT_BASE = `You are an expert forensic lip-reading AI. Analyze the following sequence of HIGHLY MAGNIFIED, CROPPED video frames showing only a person's mouth. The frames are in chronological order, captured at 25 FPS, and show subtle movements of lips, teeth, and tongue.
-
-**Task**: Transcribe the exact words being spoken with maximum accuracy. Even small movements matter (e.g., lip closure for "p", tongue position for "l").
-
-**Rules**:
-- Output ONLY the transcribed text.
-- Do NOT add any commentary, explanations, or prefixes like "The person says:".
-- If the audio is unclear or silent, respond with: "Unclear or no speech detected."
-- If multiple people appear, focus on the primary speaker's mouth.
-- Account for natural speech artifacts: mumbling, pauses, swallowed syllables.
-
-**Context**:
-- This is a silent video. All information comes from visual lip movement.
-- The speaker may not be facing the camera directly.
-- Lighting and resolution are good, but motion blur may occur.
-
-Now, transcribe the spoken phrase from the frame sequence:`;
-
-export async function transcribeVideoFromFrames(frames: string[], language: string, fps: number): Promise<string> {
-    const imageParts = frames.map(frame => ({
-        inlineData: {
-            mimeType: 'image/jpeg',
-            data: frame,
-        },
-    }));
-
-    let finalPrompt = LIP_READING_PROMPT_BASE.replace('at 25 FPS', `at approximately ${Math.round(fps)} FPS`);
-
-    const preserveLanguages = ['Spanish', 'Galician', 'English'];
-
-    if (language && language !== 'auto') {
-        finalPrompt += ` The person is speaking ${language}.`;
-        if (!preserveLanguages.includes(language)) {
-            finalPrompt += " Output the original transcription first. Then, add a newline and provide the Spanish translation labeled as 'Translation (Spanish): '.";
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Modality } from '@google/genai';
+import { FrameSequence, ProviderSettings, TranscriptionOptions, TranscriptionResult } from '../types';
+import type { LipReadingProvider } from './lipReadingProvider';
+import { buildLipReadingPrompt } from './prompt';
+import { parseTranscriptionResult, TRANSCRIPTION_RESPONSE_SCHEMA } from './transcriptionResult';
+import { AppError, toProviderError } from '../utils/errors';
+
+// Finish reasons meaning the answer was withheld by a content filter.
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+export function createGeminiProvider(settings: ProviderSettings): LipReadingProvider {
+    let ai: GoogleGenAI | null = null;
+
+    // The client is created on first use so that a missing key only fails the request, not the whole app.
+    const getClient = () => {
+        if (ai) return ai;
+        const apiKey = settings.apiKey || import.meta.env.VITE_API_KEY;
+        if (!apiKey) {
+            throw new AppError('auth', 'Non hai API key de Gemini. Configúraa en VITE_API_KEY ou no panel de axustes.');
         }
-    } else {
-        finalPrompt += " Detect the language. If the spoken language is NOT Spanish, Galician, or English, output the original transcription, followed by a newline and the Spanish translation labeled as 'Translation (Spanish): '. Otherwise, output ONLY the original transcription.";
-    }
-
-    const response = await ai.models.generateContent({
-        model: visionModel,
-        contents: {
-            parts: [
-                { text: finalPrompt },
-                ...imageParts,
-            ],
+        ai = new GoogleGenAI({ apiKey });
+        return ai;
+    };
+
+    // Sends the request and turns SDK failures and filtered answers into typed errors.
+    const generate = async (request: GenerateContentParameters): Promise<GenerateContentResponse> => {
+        let response: GenerateContentResponse;
+        try {
+            response = await getClient().models.generateContent(request);
+        } catch (error) {
+            throw toProviderError(error);
+        }
+        const blockReason = response.promptFeedback?.blockReason;
+        const finishReason = response.candidates?.[0]?.finishReason;
+        if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+            throw new AppError('safety', `${blockReason ? 'blockReason' : 'finishReason'} ${blockReason ?? finishReason}`);
+        }
+        return response;
+    };
+
+    return {
+        id: 'gemini',
+
+        async transcribeVideoFromFrames(sequence: FrameSequence, language: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+            const { frames } = sequence;
+            const imageParts = frames.map(frame => ({
+                inlineData: {
+                    mimeType: 'image/jpeg',
+                    data: frame,
+                },
+            }));
+
+            const response = await generate({
+                model: settings.visionModel,
+                contents: {
+                    parts: [
+                        { text: buildLipReadingPrompt(language, sequence, options) },
+                        ...imageParts,
+                    ],
+                },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseJsonSchema: TRANSCRIPTION_RESPONSE_SCHEMA,
+                    temperature: options.temperature,
+                    abortSignal: options.signal,
+                },
+            });
+
+            const usage = response.usageMetadata;
+            if (usage) {
+                options.onUsage?.({
+                    inputTokens: usage.promptTokenCount ?? 0,
+                    outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+                });
+            }
+            if (!response.text?.trim()) {
+                throw new AppError('empty_response', 'The response has no text.');
+            }
+            return parseTranscriptionResult(response.text);
         },
-    });
-
-    return response.text;
-}
 
-export async function generateSpeech(text: string): Promise<string> {
-    const prompt = `Say: ${text}`;
-    
-    const response = await ai.models.generateContent({
-        model: ttsModel,
-        contents: [{ parts: [{ text: prompt }] }],
-        config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: {
-                    prebuiltVoiceConfig: { voiceName: 'Puck' },
+        async generateSpeech(text: string, signal?: AbortSignal): Promise<string> {
+            const prompt = `Say: ${text}`;
+
+            const response = await generate({
+                model: settings.ttsModel,
+                contents: [{ parts: [{ text: prompt }] }],
+                config: {
+                    abortSignal: signal,
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: {
+                        voiceConfig: {
+                            prebuiltVoiceConfig: { voiceName: 'Puck' },
+                        },
+                    },
                 },
-            },
-        },
-    });
+            });
 
-    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
 
-    if (!audioData) {
-        throw new Error('No audio data returned from API.');
-    }
+            if (!audioData) {
+                throw new AppError('empty_response', 'No audio data returned from API.');
+            }
 
-    return audioData;
-}
\ No newline at end of file
+            return audioData;
+        },
+    };
+}
@@ -0,0 +1,25 @@
+import { HistoryEntry } from '../types';
+import { openDatabase, requestToPromise, HISTORY_STORE } from './database';
+
+export const addHistoryEntry = async (entry: HistoryEntry): Promise<number> => {
+    const db = await openDatabase();
+    const { id: _id, ...record } = entry;
+    const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+    return Number(await requestToPromise(store.add(record)));
+};
+
+/**
+ * Returns every stored run, newest first.
+ */
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+    const db = await openDatabase();
+    const store = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE);
+    const entries = await requestToPromise(store.getAll()) as HistoryEntry[];
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteHistoryEntry = async (id: number): Promise<void> => {
+    const db = await openDatabase();
+    const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+    await requestToPromise(store.delete(id));
+};
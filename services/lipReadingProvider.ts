@@ -0,0 +1,85 @@
+import { FrameSequence, ProviderId, ProviderSettings, RetryState, TranscriptionOptions, TranscriptionResult } from '../types';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleService';
+import { createMockProvider } from './mockService';
+import { withCassette, CassetteStore } from './cassette';
+import { withRetries } from './retryingProvider';
+
+/**
+ * A backend able to read lips from cropped mouth frames and to speak the result.
+ * Every implementation receives base64 JPEG frames (no data URL prefix) with their timestamps and must
+ * return speech as base64 16-bit mono PCM, which is what `utils/audio.ts` decodes. Calls should
+ * stop when their signal (`options.signal` for transcription) aborts.
+ */
+export interface LipReadingProvider {
+    id: ProviderId;
+    transcribeVideoFromFrames(sequence: FrameSequence, language: string, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+    generateSpeech(text: string, signal?: AbortSignal): Promise<string>;
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+    gemini: 'Google Gemini',
+    openai: 'Compatible con OpenAI / HTTP local',
+    mock: 'Simulado (sen rede)',
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: Record<ProviderId, ProviderSettings> = {
+    gemini: {
+        provider: 'gemini',
+        visionModel: 'gemini-2.5-pro',
+        ttsModel: 'gemini-2.5-flash-preview-tts',
+        apiKey: '',
+        baseUrl: '',
+        cassetteMode: 'off',
+        timeoutSeconds: 120,
+        maxRetries: 3,
+    },
+    openai: {
+        provider: 'openai',
+        visionModel: 'gpt-4o',
+        ttsModel: 'tts-1',
+        apiKey: '',
+        baseUrl: 'http://localhost:11434/v1',
+        cassetteMode: 'off',
+        timeoutSeconds: 120,
+        maxRetries: 3,
+    },
+    mock: {
+        provider: 'mock',
+        visionModel: 'mock-lipreader',
+        ttsModel: 'mock-tts',
+        apiKey: '',
+        baseUrl: '',
+        cassetteMode: 'off',
+        timeoutSeconds: 120,
+        maxRetries: 3,
+    },
+};
+
+const createBaseProvider = (settings: ProviderSettings): LipReadingProvider => {
+    switch (settings.provider) {
+        case 'openai':
+            return createOpenAiCompatibleProvider(settings);
+        case 'mock':
+            return createMockProvider(settings);
+        case 'gemini':
+        default:
+            return createGeminiProvider(settings);
+    }
+};
+
+export type ProviderHooks = {
+    /** Where calls are recorded or replayed when `settings.cassetteMode` asks for it. */
+    cassettes?: CassetteStore;
+    /** Told before each retry of a failed call. */
+    onRetry?: (state: RetryState) => void;
+};
+
+/**
+ * The provider for `settings`, with timeouts and retries, recording to or replaying from
+ * `cassettes` outside them so replayed calls are never retried.
+ */
+export function createProvider(settings: ProviderSettings, { cassettes, onRetry }: ProviderHooks = {}): LipReadingProvider {
+    const provider = withRetries(createBaseProvider(settings), settings, onRetry);
+    return cassettes && settings.cassetteMode !== 'off' ? withCassette(provider, settings, cassettes) : provider;
+}
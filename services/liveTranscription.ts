@@ -0,0 +1,127 @@
+import { FrameSequence, TranscriptionResult, TranscriptSegment } from '../types';
+import { getSamplingRate, MAX_FRAMES } from '../utils/sampling';
+import { removeOverlap, LONG_FORM_OVERLAP_SECONDS, LONG_FORM_WINDOW_SECONDS } from '../utils/chunking';
+import { isAbortError } from '../utils/retry';
+
+/**
+ * Rate (frames per second) at which the webcam crop is captured into the rolling buffer.
+ */
+export const LIVE_SAMPLE_FPS = 15;
+
+/**
+ * Seconds of frames kept in the rolling buffer. A window that waits longer than this for the
+ * previous request only gets its most recent part.
+ */
+const LIVE_BUFFER_SECONDS = 15;
+
+/**
+ * Windows shorter than this many frames are skipped (e.g. while the camera warms up).
+ */
+const MIN_WINDOW_FRAMES = 5;
+
+export const LIVE_WINDOW_SECONDS_OPTIONS = [2, LONG_FORM_WINDOW_SECONDS, 5];
+
+/**
+ * Sends one window of captured frames to the model, with the app's preprocessing and packing.
+ */
+export type LiveWindowTranscriber = (sequence: FrameSequence, signal: AbortSignal) => Promise<TranscriptionResult>;
+
+export type LiveTranscriptionOptions = {
+    /** The current mouth crop as base64 JPEG, or null when no frame is available yet. */
+    grabFrame: () => string | null;
+    transcribe: LiveWindowTranscriber;
+    windowSeconds: number;
+    /** Receives each new piece of transcript, timed in seconds since the session started. */
+    onSegment: (segment: TranscriptSegment) => void;
+    /** Called when a window starts or stops being transcribed. */
+    onBusyChange: (busy: boolean) => void;
+    /** The session stops itself after reporting an error. */
+    onError: (error: unknown) => void;
+};
+
+export type LiveTranscriptionSession = {
+    /** Seconds since the session started. */
+    elapsed: () => number;
+    stop: () => void;
+};
+
+type BufferedFrame = { time: number; frame: string };
+
+// Up to `maxFrames` of the buffered frames in the range, picked evenly.
+const framesInRange = (buffer: BufferedFrame[], start: number, end: number, maxFrames: number): BufferedFrame[] => {
+    const inRange = buffer.filter(entry => entry.time >= start && entry.time < end);
+    if (inRange.length <= maxFrames) return inRange;
+    return Array.from({ length: maxFrames }, (_, i) => inRange[Math.round((i * (inRange.length - 1)) / (maxFrames - 1))]);
+};
+
+/**
+ * Captures the webcam crop into a rolling buffer and, every `windowSeconds`, transcribes what was
+ * captured since the previous window (plus a short overlap whose repeated words are dropped).
+ * Only one window is sent at a time; while one is in flight the next waits and covers more time.
+ */
+export function startLiveTranscription(options: LiveTranscriptionOptions): LiveTranscriptionSession {
+    const startedAt = performance.now();
+    const elapsed = () => (performance.now() - startedAt) / 1000;
+    const controller = new AbortController();
+    let buffer: BufferedFrame[] = [];
+    let transcribedUntil = 0;
+    let previousText = '';
+    let busy = false;
+
+    const sampler = setInterval(() => {
+        const frame = options.grabFrame();
+        if (!frame) return;
+        const time = elapsed();
+        buffer.push({ time, frame });
+        buffer = buffer.filter(entry => entry.time >= time - LIVE_BUFFER_SECONDS);
+    }, 1000 / LIVE_SAMPLE_FPS);
+
+    const setBusy = (value: boolean) => {
+        busy = value;
+        options.onBusyChange(value);
+    };
+
+    const transcribeWindow = async () => {
+        if (busy || controller.signal.aborted) return;
+        const start = transcribedUntil;
+        const end = elapsed();
+        const entries = framesInRange(buffer, Math.max(0, start - LONG_FORM_OVERLAP_SECONDS), end, MAX_FRAMES);
+        if (entries.length < MIN_WINDOW_FRAMES) return;
+
+        transcribedUntil = end;
+        const timestamps = entries.map(entry => entry.time);
+        const sequence: FrameSequence = {
+            frames: entries.map(entry => entry.frame),
+            timestamps,
+            fps: getSamplingRate(timestamps, LIVE_SAMPLE_FPS),
+        };
+        setBusy(true);
+        try {
+            const result = await options.transcribe(sequence, controller.signal);
+            if (result.noSpeech) {
+                previousText = '';
+                return;
+            }
+            const text = removeOverlap(previousText, result.transcript.trim());
+            previousText = result.transcript.trim();
+            if (text) options.onSegment({ start, end, text });
+        } catch (error) {
+            if (isAbortError(error)) return;
+            stop();
+            options.onError(error);
+        } finally {
+            if (!controller.signal.aborted) setBusy(false);
+        }
+    };
+
+    const ticker = setInterval(transcribeWindow, options.windowSeconds * 1000);
+
+    function stop() {
+        clearInterval(sampler);
+        clearInterval(ticker);
+        controller.abort();
+        buffer = [];
+    }
+
+    return { elapsed, stop };
+}
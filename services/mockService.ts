@@ -0,0 +1,75 @@
+import { FrameSequence, ProviderSettings, TranscriptionOptions, TranscriptionResult } from '../types';
+import type { LipReadingProvider } from './lipReadingProvider';
+import { encodeBase64 } from '../utils/audio';
+import { NO_SPEECH_RESULT } from './transcriptionResult';
+import { translationFor } from './prompt';
+
+const MOCK_PHRASES = [
+    'Bos días, como estás?',
+    'Hoxe vai chover pola tarde.',
+    'Non sei se chegaremos a tempo.',
+    'Moitas grazas por vir.',
+];
+
+// The phrases in the usual translation targets; any other target gets a marked copy of the phrase.
+const MOCK_TRANSLATIONS: Record<string, string[]> = {
+    Spanish: ['Buenos días, ¿cómo estás?', 'Hoy va a llover por la tarde.', 'No sé si llegaremos a tiempo.', 'Muchas gracias por venir.'],
+    English: ['Good morning, how are you?', 'It will rain this afternoon.', "I don't know if we'll make it in time.", 'Thank you very much for coming.'],
+};
+
+// The mock always "reads" Galician.
+const MOCK_LANGUAGE = 'Galician';
+
+const MOCK_SAMPLE_RATE = 32000;
+
+/**
+ * Deterministic provider for working offline: the same frames, language, FPS and options
+ * always produce the same answer, and no network request is ever made.
+ */
+export function createMockProvider(_settings: ProviderSettings): LipReadingProvider {
+    return {
+        id: 'mock',
+
+        async transcribeVideoFromFrames(sequence: FrameSequence, language: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+            options.signal?.throwIfAborted();
+            const { frames, timestamps } = sequence;
+            if (frames.length === 0) {
+                return NO_SPEECH_RESULT;
+            }
+            // Options change the answer like a real model would, so ensemble runs get differing hypotheses.
+            const variation = (options.promptVariant === 'phonetic' ? 1 : 0) + Math.round((options.temperature ?? 0) * 2);
+            const checksum = frames.reduce((sum, frame) => sum + frame.length, 0);
+            const index = (checksum + variation) % MOCK_PHRASES.length;
+            const phrase = MOCK_PHRASES[index];
+            // Translated like the prompt asks a real model to, under the chosen target.
+            const into = translationFor(MOCK_LANGUAGE, options.translationTarget);
+            // Words are spread evenly over the frames, with a confidence that varies per word.
+            const words = phrase.split(' ');
+            const frameCount = Math.max(timestamps.length, frames.length);
+            return {
+                transcript: phrase,
+                // What the mock was given goes next to the language, so the transcript scores like a real one.
+                detectedLanguage: `${MOCK_LANGUAGE} [simulado: ${frames.length} fotogramas, ${Math.round(sequence.fps)} FPS, ${language}]`,
+                translation: into ? MOCK_TRANSLATIONS[into]?.[index] ?? `${phrase} [tradución simulada: ${into}]` : null,
+                words: words.map((text, i) => ({
+                    text,
+                    startFrame: Math.floor((i * frameCount) / words.length) + 1,
+                    endFrame: Math.max(1, Math.floor(((i + 1) * frameCount) / words.length)),
+                    confidence: ((checksum + i * 37) % 100) / 100,
+                })),
+                noSpeech: false,
+            };
+        },
+
+        async generateSpeech(text: string, signal?: AbortSignal): Promise<string> {
+            signal?.throwIfAborted();
+            // A short tone whose length follows the text, encoded as 16-bit mono PCM.
+            const sampleCount = Math.round(MOCK_SAMPLE_RATE * Math.min(5, 0.3 + text.length * 0.03));
+            const samples = new Int16Array(sampleCount);
+            for (let i = 0; i < sampleCount; i++) {
+                samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / MOCK_SAMPLE_RATE) * 8000);
+            }
+            return encodeBase64(new Uint8Array(samples.buffer));
+        },
+    };
+}
@@ -0,0 +1,122 @@
+import { FrameSequence, ProviderSettings, TranscriptionOptions, TranscriptionResult } from '../types';
+import type { LipReadingProvider } from './lipReadingProvider';
+import { buildLipReadingPrompt } from './prompt';
+import { parseTranscriptionResult, TRANSCRIPTION_RESPONSE_SCHEMA } from './transcriptionResult';
+import { encodeBase64 } from '../utils/audio';
+import { AppError, toProviderError } from '../utils/errors';
+import { isAbortError } from '../utils/retry';
+
+// A chat completion body as parsed from JSON, before its fields are checked.
+type CompletionBody = { choices?: unknown; usage?: { prompt_tokens?: unknown; completion_tokens?: unknown } | null };
+type CompletionChoice = { finish_reason?: unknown; message?: { content?: unknown; refusal?: unknown } | null } | null;
+
+const tokenCount = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+// The response body as an object; anything else (not JSON, or not an object) is an empty answer.
+const readCompletion = async (response: Response): Promise<CompletionBody> => {
+    let body: unknown;
+    try {
+        body = await response.json();
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw new AppError('empty_response', 'The response is not JSON.');
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new AppError('empty_response', 'The response is not a chat completion.');
+    }
+    return body as CompletionBody;
+};
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` and `/audio/speech`
+ * endpoints (OpenAI itself, Ollama, LM Studio, vLLM, a local stand-in...).
+ */
+export function createOpenAiCompatibleProvider(settings: ProviderSettings): LipReadingProvider {
+    const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+
+    const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+        if (!baseUrl) {
+            throw new AppError('network', 'Non hai URL base configurada para o provedor compatible con OpenAI.');
+        }
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (settings.apiKey) {
+            headers.Authorization = `Bearer ${settings.apiKey}`;
+        }
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(body),
+            signal,
+        }).catch((error) => {
+            throw toProviderError(error);
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            // `status` classifies the error (auth, quota...) and tells the retry logic what is transient.
+            throw toProviderError(Object.assign(new Error(`HTTP ${response.status} desde ${path}${detail ? `: ${detail}` : ''}`), { status: response.status }));
+        }
+        return response;
+    };
+
+    return {
+        id: 'openai',
+
+        async transcribeVideoFromFrames(sequence: FrameSequence, language: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+            const { frames } = sequence;
+            const imageParts = frames.map(frame => ({
+                type: 'image_url',
+                image_url: { url: `data:image/jpeg;base64,${frame}` },
+            }));
+
+            const response = await post('/chat/completions', {
+                model: settings.visionModel,
+                messages: [
+                    {
+                        role: 'user',
+                        content: [
+                            { type: 'text', text: buildLipReadingPrompt(language, sequence, options) },
+                            ...imageParts,
+                        ],
+                    },
+                ],
+                temperature: options.temperature,
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: 'transcription', schema: TRANSCRIPTION_RESPONSE_SCHEMA, strict: true },
+                },
+            }, options.signal);
+
+            const data = await readCompletion(response);
+            const { usage } = data;
+            if (usage) {
+                options.onUsage?.({ inputTokens: tokenCount(usage.prompt_tokens), outputTokens: tokenCount(usage.completion_tokens) });
+            }
+            const choice = Array.isArray(data.choices) ? (data.choices[0] as CompletionChoice) : undefined;
+            const refusal = typeof choice?.message?.refusal === 'string' ? choice.message.refusal : '';
+            if (choice?.finish_reason === 'content_filter' || refusal) {
+                throw new AppError('safety', refusal || 'finish_reason content_filter');
+            }
+            const content = choice?.message?.content;
+            if (typeof content !== 'string' || !content.trim()) {
+                throw new AppError('empty_response', 'The response has no content.');
+            }
+            return parseTranscriptionResult(content);
+        },
+
+        async generateSpeech(text: string, signal?: AbortSignal): Promise<string> {
+            // 'pcm' is raw 16-bit mono PCM, the same format Gemini returns.
+            const response = await post('/audio/speech', {
+                model: settings.ttsModel,
+                input: text,
+                voice: 'alloy',
+                response_format: 'pcm',
+            }, signal);
+
+            const audio = new Uint8Array(await response.arrayBuffer());
+            if (audio.length === 0) {
+                throw new AppError('empty_response', 'No audio data returned from API.');
+            }
+            return encodeBase64(audio);
+        },
+    };
+}
@@ -0,0 +1,112 @@
+import { ContextHints, FrameSequence, TranscriptionOptions } from '../types';
+import { hasContextHints } from '../utils/contextHints';
+import { DEFAULT_PROMPT_TEMPLATE, renderPromptTemplate } from './promptTemplates';
+
+/**
+ * Extra guidance appended to the task for each prompt variant, so ensemble passes read the frames differently.
+ */
+const PROMPT_VARIANT_GUIDANCE: Record<NonNullable<TranscriptionOptions['promptVariant']>, string> = {
+    default: '',
+    phonetic: ' Work phonetically: first identify the sequence of visemes (lip closures, rounding, teeth and tongue visibility), then choose the words that best match them, even if the phrase is unusual.',
+    conservative: ' Prefer common, grammatical phrases that fit the visible movements, and give low confidence to any word you are unsure about.',
+};
+
+// The hints as a prompt section; the model is told not to force them onto lips that do not match.
+const describeContextHints = (hints: ContextHints) => {
+    const lines = ['**Speaker context** (known in advance; use it to choose between visually similar words, but never force a word the lips do not show):'];
+    if (hints.topic.trim()) lines.push(`- Topic: ${hints.topic.trim()}`);
+    if (hints.speakers.length > 0) lines.push(`- Speakers and names that may be said: ${hints.speakers.join(', ')}`);
+    if (hints.expectedPhrases.length > 0) lines.push(`- Phrases likely to be said: ${hints.expectedPhrases.map(phrase => `"${phrase}"`).join('; ')}`);
+    if (hints.vocabulary.length > 0) lines.push(`- Vocabulary (prefer these words and spellings over common look-alikes): ${hints.vocabulary.join(', ')}`);
+    return lines.join('\n');
+};
+
+// Frame times relative to the first frame, e.g. "1: 0.000s, 2: 0.033s".
+const describeTimestamps = (timestamps: number[]) =>
+    timestamps.map((time, i) => `${i + 1}: ${(time - timestamps[0]).toFixed(3)}s`).join(', ');
+
+// True when some frame intervals differ from the average by more than 10%, e.g. after motion-aware selection.
+const isIrregular = (timestamps: number[]) => {
+    if (timestamps.length < 3) return false;
+    const average = (timestamps[timestamps.length - 1] - timestamps[0]) / (timestamps.length - 1);
+    return timestamps.slice(1).some((time, i) => Math.abs(time - timestamps[i] - average) > average * 0.1);
+};
+
+/**
+ * The translation target used when none is chosen, which keeps the original rule.
+ */
+export const DEFAULT_TRANSLATION_TARGET = 'auto';
+
+// Languages that 'auto' leaves untranslated.
+const PRESERVED_LANGUAGES = ['Spanish', 'Galician', 'English'];
+
+/**
+ * English name of the language a target translates into, or null for 'none'.
+ */
+export const translationLanguage = (target: string = DEFAULT_TRANSLATION_TARGET): string | null =>
+    target === 'none' ? null : target === 'auto' ? 'Spanish' : target;
+
+/**
+ * English name of the language speech in `spoken` is translated into under `target`, or null when
+ * it is left untranslated.
+ */
+export const translationFor = (spoken: string, target: string = DEFAULT_TRANSLATION_TARGET): string | null => {
+    const into = translationLanguage(target);
+    if (!into || spoken === into || (target === 'auto' && PRESERVED_LANGUAGES.includes(spoken))) return null;
+    return into;
+};
+
+// What to put in "translation", knowing the spoken language or not ('auto').
+const describeTranslation = (language: string, target: string) => {
+    const known = language && language !== 'auto';
+    const into = translationLanguage(target);
+    if (!into || (known && !translationFor(language, target))) {
+        return ' Set "translation" to null.';
+    }
+    if (known) {
+        return ` Put the original transcription in "transcript" and its ${into} translation in "translation".`;
+    }
+    return target === 'auto'
+        ? ' If the spoken language is NOT Spanish, Galician, or English, put the Spanish translation of the transcript in "translation". Otherwise, set "translation" to null.'
+        : ` Put the ${into} translation of the transcript in "translation", or set it to null if the spoken language is already ${into}.`;
+};
+
+/**
+ * Builds the lip-reading prompt shared by every provider, so switching models
+ * never changes what we ask for. `options.template` replaces the built-in template.
+ */
+export function buildLipReadingPrompt(
+    language: string,
+    sequence: Pick<FrameSequence, 'timestamps' | 'fps' | 'sheetLayout'>,
+    options: TranscriptionOptions = {}
+): string {
+    const fps = Number(sequence.fps.toFixed(2));
+    const timing = isIrregular(sequence.timestamps)
+        ? `at irregular intervals (${fps} FPS on average; static moments were thinned out and fast articulation is sampled more densely, so rely on the timestamps below)`
+        : `at ${fps} FPS`;
+
+    let layout = '';
+    if (sequence.sheetLayout) {
+        const { columns, rows } = sequence.sheetLayout;
+        layout = `\n\n**Layout**: The frames are packed into contact sheets. Each image is a grid of ${columns} columns × ${rows} rows of consecutive frames. ` +
+            'Read each sheet row by row, left to right and top to bottom, and the sheets in the order given; the last sheet may have fewer tiles. ' +
+            'Each tile is labelled with its frame number and its time relative to the first frame. Treat the tiles as one continuous frame sequence.';
+    }
+
+    const languageInstruction = (language && language !== 'auto' ? ` The person is speaking ${language}.` : ' Detect the language.')
+        + describeTranslation(language, options.translationTarget ?? DEFAULT_TRANSLATION_TARGET);
+
+    return renderPromptTemplate((options.template ?? DEFAULT_PROMPT_TEMPLATE).body, {
+        timing,
+        fps: String(fps),
+        frameCount: String(sequence.timestamps.length),
+        language: language || 'auto',
+        languageInstruction,
+        variantGuidance: PROMPT_VARIANT_GUIDANCE[options.promptVariant ?? 'default'],
+        timestamps: sequence.timestamps.length > 1
+            ? `\nFrame timestamps relative to the first frame: ${describeTimestamps(sequence.timestamps)}.`
+            : '',
+        layout,
+        hints: hasContextHints(options.hints) ? `\n\n${describeContextHints(options.hints)}` : '',
+    });
+}
@@ -0,0 +1,105 @@
+import { PromptTemplate, PromptTemplateRef } from '../types';
+
+/**
+ * The placeholders a template can use. Optional sections (timestamps, layout, hints) render as
+ * an empty string when they do not apply and otherwise carry their own leading line breaks,
+ * so they can sit at the end of a paragraph.
+ */
+export const PROMPT_PLACEHOLDERS: { name: string; description: string }[] = [
+    { name: 'timing', description: 'Como se mostrearon os fotogramas, p. ex. "at 10 FPS" ou a explicación dos intervalos irregulares.' },
+    { name: 'fps', description: 'Taxa de mostraxe efectiva, p. ex. "10".' },
+    { name: 'frameCount', description: 'Número de fotogramas da secuencia.' },
+    { name: 'language', description: 'Idioma seleccionado, ou "auto".' },
+    { name: 'languageInstruction', description: 'Instrución de idioma e tradución (comeza cun espazo).' },
+    { name: 'variantGuidance', description: 'Indicacións da variante de prompt nas pasadas do consenso (baleiro na base).' },
+    { name: 'timestamps', description: 'Liña cos instantes de cada fotograma (baleiro se hai un só).' },
+    { name: 'layout', description: 'Explicación das follas de contacto (baleiro se se envían fotogramas soltos).' },
+    { name: 'hints', description: 'Sección de contexto: tema, falantes, frases e vocabulario (baleiro se non hai).' },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+    id: 'default',
+    version: 1,
+    name: 'Predeterminado',
+    createdAt: 0,
+    body: `You are an expert forensic lip-reading AI. Analyze the following sequence of HIGHLY MAGNIFIED, CROPPED video frames showing only a person's mouth. The frames are in chronological order, captured {{timing}}, and show subtle movements of lips, teeth, and tongue.{{timestamps}}{{layout}}
+
+**Task**: Transcribe the exact words being spoken with maximum accuracy. Even small movements matter (e.g., lip closure for "p", tongue position for "l").{{variantGuidance}}
+
+**Rules**:
+- Respond ONLY with a JSON object with the fields "transcript", "detectedLanguage", "translation", "noSpeech" and "words".
+- "transcript" holds only the spoken words. Do NOT add any commentary, explanations, or prefixes like "The person says:".
+- "detectedLanguage" is the English name of the spoken language.
+- If the speech is unclear or there is none, set "noSpeech" to true and leave "transcript" empty.
+- "words" lists every word of the transcript in order, with "startFrame" and "endFrame" (the numbers of the first and last frame where it is articulated; the first frame is 1) and a "confidence" from 0 to 1. Use low confidence for guesses.
+- If multiple people appear, focus on the primary speaker's mouth.
+- Account for natural speech artifacts: mumbling, pauses, swallowed syllables.
+
+**Context**:
+- This is a silent video. All information comes from visual lip movement.
+- The speaker may not be facing the camera directly.
+- Lighting and resolution are good, but motion blur may occur.{{hints}}
+
+Now, transcribe the spoken phrase from the frame sequence:{{languageInstruction}}`,
+};
+
+/**
+ * Fills in the `{{placeholder}}` markers of a template body. Unknown placeholders are left as written.
+ */
+export const renderPromptTemplate = (body: string, values: Record<string, string>): string =>
+    body.replace(PLACEHOLDER_PATTERN, (match, name: string) => (name in values ? values[name] : match));
+
+/**
+ * Placeholders used in `body` that `renderPromptTemplate` will not fill, e.g. typos.
+ */
+export const findUnknownPlaceholders = (body: string): string[] => {
+    const known = new Set(PROMPT_PLACEHOLDERS.map(p => p.name));
+    return [...new Set([...body.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]).filter(name => !known.has(name)))];
+};
+
+export const templateRef = ({ id, version, name }: PromptTemplate): PromptTemplateRef => ({ id, version, name });
+
+export const findTemplate = (library: PromptTemplate[], ref: Pick<PromptTemplateRef, 'id' | 'version'>): PromptTemplate | undefined =>
+    library.find(t => t.id === ref.id && t.version === ref.version);
+
+/**
+ * All versions of a template, newest first.
+ */
+export const templateVersions = (library: PromptTemplate[], id: string): PromptTemplate[] =>
+    library.filter(t => t.id === id).sort((a, b) => b.version - a.version);
+
+/**
+ * The newest version of every template, the built-in one first and the rest by name.
+ */
+export const latestTemplates = (library: PromptTemplate[]): PromptTemplate[] => {
+    const latest = new Map<string, PromptTemplate>();
+    library.forEach(t => {
+        const current = latest.get(t.id);
+        if (!current || t.version > current.version) latest.set(t.id, t);
+    });
+    return [...latest.values()].sort((a, b) =>
+        a.id === DEFAULT_PROMPT_TEMPLATE.id ? -1 : b.id === DEFAULT_PROMPT_TEMPLATE.id ? 1 : a.name.localeCompare(b.name));
+};
+
+/**
+ * A new version of `base`'s template with the given name and body, numbered after its newest version.
+ */
+export const createTemplateVersion = (library: PromptTemplate[], base: PromptTemplate, changes: Pick<PromptTemplate, 'name' | 'body'>): PromptTemplate => ({
+    ...changes,
+    id: base.id,
+    version: Math.max(...templateVersions(library, base.id).map(t => t.version), 0) + 1,
+    createdAt: Date.now(),
+});
+
+/**
+ * A copy of `template` as the first version of a new template.
+ */
+export const duplicateTemplate = (template: PromptTemplate, name: string): PromptTemplate => ({
+    id: `template-${Date.now().toString(36)}`,
+    version: 1,
+    name,
+    body: template.body,
+    createdAt: Date.now(),
+});
@@ -0,0 +1,32 @@
+import { FrameSequence, ProviderSettings, RetryState, TranscriptionOptions, TranscriptionResult } from '../types';
+import type { LipReadingProvider } from './lipReadingProvider';
+import { retryWithBackoff } from '../utils/retry';
+
+/**
+ * Wraps a provider so every call has the configured time limit and transient failures (rate
+ * limits, 5xx, timeouts, network errors) are retried with exponential backoff. `onRetry` is told
+ * before each wait, so the UI can show it.
+ */
+export function withRetries(provider: LipReadingProvider, settings: ProviderSettings, onRetry?: (state: RetryState) => void): LipReadingProvider {
+    const retryOptions = (signal?: AbortSignal) => ({
+        maxRetries: settings.maxRetries,
+        timeoutMs: settings.timeoutSeconds * 1000,
+        signal,
+        onRetry,
+    });
+
+    return {
+        id: provider.id,
+
+        transcribeVideoFromFrames(sequence: FrameSequence, language: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+            return retryWithBackoff(
+                (signal) => provider.transcribeVideoFromFrames(sequence, language, { ...options, signal }),
+                retryOptions(options.signal)
+            );
+        },
+
+        generateSpeech(text: string, signal?: AbortSignal): Promise<string> {
+            return retryWithBackoff((attemptSignal) => provider.generateSpeech(text, attemptSignal), retryOptions(signal));
+        },
+    };
+}
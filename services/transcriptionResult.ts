@@ -0,0 +1,174 @@
+import { TimeRange, TranscribedWord, TranscriptionResult } from '../types';
+import { joinSegments, stitchSegments } from '../utils/chunking';
+
+/**
+ * Words below this confidence are highlighted for review.
+ */
+export const LOW_CONFIDENCE = 0.5;
+
+// "Translation (Galician):" and the like, or just "Translation:", which separates the translation in plain text.
+const TRANSLATION_LABEL = /Translation(?: \([^)]*\))?:/;
+
+/**
+ * JSON Schema of the answer requested from every provider (Gemini `responseJsonSchema`,
+ * OpenAI `response_format.json_schema`).
+ */
+export const TRANSCRIPTION_RESPONSE_SCHEMA = {
+    type: 'object',
+    properties: {
+        transcript: { type: 'string', description: 'The words spoken, in the original language. Empty when noSpeech is true.' },
+        detectedLanguage: { type: 'string', description: 'English name of the spoken language.' },
+        translation: { type: ['string', 'null'], description: 'Translation of the transcript into the requested language, otherwise null.' },
+        noSpeech: { type: 'boolean', description: 'True when no speech can be read from the frames.' },
+        words: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    text: { type: 'string' },
+                    startFrame: { type: 'integer', description: 'Number of the first frame where the word is articulated (the first frame is 1).' },
+                    endFrame: { type: 'integer', description: 'Number of the last frame where the word is articulated.' },
+                    confidence: { type: 'number', description: 'Confidence in the word, from 0 to 1.' },
+                },
+                required: ['text', 'startFrame', 'endFrame', 'confidence'],
+                additionalProperties: false,
+            },
+        },
+    },
+    required: ['transcript', 'detectedLanguage', 'translation', 'noSpeech', 'words'],
+    additionalProperties: false,
+};
+
+export const NO_SPEECH_RESULT: TranscriptionResult = {
+    transcript: '',
+    detectedLanguage: '',
+    translation: null,
+    words: [],
+    noSpeech: true,
+};
+
+/**
+ * Reads a free-text answer (older sessions, or a model that ignored the schema), splitting off
+ * the "Translation (Spanish): " line.
+ */
+export const transcriptionFromText = (text: string): TranscriptionResult => {
+    const trimmed = text.trim();
+    if (!trimmed || trimmed === 'Unclear or no speech detected.') {
+        return NO_SPEECH_RESULT;
+    }
+    const label = TRANSLATION_LABEL.exec(trimmed);
+    return {
+        transcript: (label ? trimmed.slice(0, label.index) : trimmed).trim(),
+        detectedLanguage: '',
+        translation: label ? trimmed.slice(label.index + label[0].length).trim() : null,
+        words: [],
+        noSpeech: false,
+    };
+};
+
+// A word or answer as parsed from the model's JSON, before its fields are checked.
+type ParsedWord = { text?: unknown; startFrame?: unknown; endFrame?: unknown; confidence?: unknown } | null;
+type ParsedAnswer = { transcript?: unknown; detectedLanguage?: unknown; translation?: unknown; words?: unknown; noSpeech?: unknown };
+
+const toWord = (value: unknown): TranscribedWord | null => {
+    const word = value as ParsedWord;
+    if (typeof word?.text !== 'string' || !word.text.trim()) return null;
+    const startFrame = Math.max(1, Math.round(Number(word.startFrame) || 1));
+    return {
+        text: word.text.trim(),
+        startFrame,
+        endFrame: Math.max(startFrame, Math.round(Number(word.endFrame) || startFrame)),
+        confidence: Math.min(1, Math.max(0, Number(word.confidence) || 0)),
+    };
+};
+
+/**
+ * Parses the model's JSON answer, tolerating Markdown code fences and missing fields.
+ * Anything that is not JSON is read as free text.
+ */
+export const parseTranscriptionResult = (raw: string): TranscriptionResult => {
+    const text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        return transcriptionFromText(raw);
+    }
+    if (!parsed || typeof parsed !== 'object') {
+        return transcriptionFromText(raw);
+    }
+    const data = parsed as ParsedAnswer;
+
+    const transcript = typeof data.transcript === 'string' ? data.transcript.trim() : '';
+    const translation = typeof data.translation === 'string' && data.translation.trim() ? data.translation.trim() : null;
+    return {
+        transcript,
+        detectedLanguage: typeof data.detectedLanguage === 'string' ? data.detectedLanguage.trim() : '',
+        translation,
+        words: Array.isArray(data.words) ? data.words.map(toWord).filter((w): w is TranscribedWord => !!w) : [],
+        noSpeech: data.noSpeech === true || transcript === '',
+    };
+};
+
+/**
+ * Plain-text form of a result, as copied to the clipboard and listed in the history.
+ * `translatedInto` (an English language name) labels the translation when known.
+ */
+export const formatTranscription = (result: TranscriptionResult, translatedInto?: string | null): string => {
+    if (result.noSpeech) return 'Unclear or no speech detected.';
+    if (!result.translation) return result.transcript;
+    return `${result.transcript}\n\n${translatedInto ? `Translation (${translatedInto}):` : 'Translation:'} ${result.translation}`;
+};
+
+/**
+ * Combines the results of overlapping long-form windows. The transcript and translation are
+ * stitched like the segments; word frame numbers are offset by `frameOffsets` (the number of
+ * frames sent before each window) so they index the concatenated frames.
+ */
+export const mergeWindowResults = (windows: TimeRange[], results: TranscriptionResult[], frameOffsets: number[]): TranscriptionResult => {
+    const transcript = joinSegments(stitchSegments(windows, results.map(r => (r.noSpeech ? '' : r.transcript))));
+    if (!transcript) return NO_SPEECH_RESULT;
+
+    const translations = results.map(r => (r.noSpeech ? '' : r.translation ?? ''));
+    const languages = results.map(r => r.detectedLanguage).filter(Boolean);
+    const counts = new Map<string, number>();
+    languages.forEach(language => counts.set(language, (counts.get(language) ?? 0) + 1));
+
+    return {
+        transcript,
+        detectedLanguage: [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? '',
+        translation: translations.some(Boolean) ? joinSegments(stitchSegments(windows, translations)) : null,
+        words: results.flatMap((r, i) => r.words.map(word => ({
+            ...word,
+            startFrame: word.startFrame + frameOffsets[i],
+            endFrame: word.endFrame + frameOffsets[i],
+        }))),
+        noSpeech: false,
+    };
+};
+
+const normalizeToken = (token: string) => token.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * How many upcoming words are searched for a token before giving up on it.
+ */
+const ALIGNMENT_LOOKAHEAD = 4;
+
+/**
+ * Splits the transcript into tokens and attaches the matching word (and so its confidence) to
+ * each, walking both in order. Tokens the model gave no word for are left unmatched.
+ */
+export const alignTranscriptWords = (transcript: string, words: TranscribedWord[]): { token: string; word?: TranscribedWord }[] => {
+    let next = 0;
+    return transcript.split(/(\s+)/).filter(Boolean).map(token => {
+        const normalized = normalizeToken(token);
+        if (!normalized) return { token };
+        for (let j = next; j < Math.min(words.length, next + ALIGNMENT_LOOKAHEAD); j++) {
+            if (normalizeToken(words[j].text) === normalized) {
+                next = j + 1;
+                return { token, word: words[j] };
+            }
+        }
+        return { token };
+    });
+};
@@ -5,15 +5,526 @@ export type CropArea = {
   height: number;
 };
 
+/**
+ * A crop pinned to an absolute time (in seconds) of the source video.
+ * Crops between keyframes are linearly interpolated.
+ */
+export type CropKeyframe = {
+  time: number;
+  crop: CropArea;
+};
+
 export type TimeRange = {
   start: number;
   end: number;
 };
 
+/**
+ * A piece of transcript tied to absolute times (in seconds) of the source video.
+ */
+export type TranscriptSegment = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+/**
+ * One of several people in the same shot, with their own mouth crop, in multi-speaker mode.
+ */
+export type Speaker = {
+  label: string;
+  cropKeyframes: CropKeyframe[];
+};
+
+/**
+ * What one speaker's crop was transcribed as, before merging into the dialogue.
+ */
+export type SpeakerTranscript = {
+  label: string;
+  result: TranscriptionResult;
+  segments: TranscriptSegment[];
+};
+
+/**
+ * A word of the transcript with the (1-based) numbers of the first and last frame where the model
+ * saw it articulated, and its confidence from 0 to 1.
+ */
+export type TranscribedWord = {
+  text: string;
+  startFrame: number;
+  endFrame: number;
+  confidence: number;
+};
+
+/**
+ * Structured answer of a transcription call.
+ */
+export type TranscriptionResult = {
+  transcript: string;
+  /** English name of the spoken language as detected by the model, or '' if unknown. */
+  detectedLanguage: string;
+  /** Translation into the requested target language, or null when none was needed. */
+  translation: string | null;
+  words: TranscribedWord[];
+  noSpeech: boolean;
+};
+
+/**
+ * What is known in advance about a recording, injected into the prompt to steer word choice.
+ */
+export type ContextHints = {
+  topic: string;
+  speakers: string[];
+  expectedPhrases: string[];
+  vocabulary: string[];
+};
+
+/**
+ * A named set of hints saved in the browser for reuse across sessions.
+ */
+export type ContextPreset = {
+  name: string;
+  hints: ContextHints;
+};
+
+export type PromptVariant = 'default' | 'phonetic' | 'conservative';
+
+/**
+ * One saved version of a prompt template. Versions are never edited in place: saving a change
+ * adds a new version under the same id, so every recorded result can name the exact text used.
+ */
+export type PromptTemplate = {
+  id: string;
+  version: number;
+  name: string;
+  /** Prompt text with `{{placeholder}}` markers, filled in by `renderPromptTemplate`. */
+  body: string;
+  createdAt: number;
+};
+
+/**
+ * Which template version produced a result.
+ */
+export type PromptTemplateRef = {
+  id: string;
+  version: number;
+  name: string;
+};
+
+/**
+ * Per-call knobs used to get different hypotheses from the same frames.
+ */
+export type TranscriptionOptions = {
+  promptVariant?: PromptVariant;
+  /** Sampling temperature; the provider default when absent. */
+  temperature?: number;
+  hints?: ContextHints;
+  /** The built-in template when absent. */
+  template?: PromptTemplate;
+  /**
+   * English name of the language to translate the transcript into, 'none', or 'auto' (the default):
+   * Spanish unless the speaker uses Spanish, Galician or English.
+   */
+  translationTarget?: string;
+  /** Cancels the request. */
+  signal?: AbortSignal;
+  /** Told the tokens billed for the request, when the provider reports them. */
+  onUsage?: (usage: TokenUsage) => void;
+};
+
+export type TokenUsage = {
+  inputTokens: number;
+  /** Including any reasoning tokens, which are billed as output. */
+  outputTokens: number;
+};
+
+/**
+ * Pre-flight estimate of a transcription run, from the extraction settings.
+ */
+export type CostEstimate = {
+  requests: number;
+  images: number;
+  /** Size of the base64 images sent, in bytes. */
+  payloadBytes: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** In US dollars; null when the model's price is unknown. */
+  cost: number | null;
+};
+
+/**
+ * Tokens actually billed over a run, as reported by the provider.
+ */
+export type UsageSummary = TokenUsage & {
+  requests: number;
+  /** In US dollars; null when the model's price is unknown. */
+  cost: number | null;
+};
+
+export type SpendingBudget = {
+  /** Limits in US dollars; 0 for none. */
+  sessionLimit: number;
+  dailyLimit: number;
+  /** Whether a run that would exceed a limit asks for confirmation or is refused. */
+  mode: 'warn' | 'block';
+};
+
+/**
+ * What was spent on a calendar day (local `YYYY-MM-DD`), in US dollars.
+ */
+export type DailySpending = {
+  date: string;
+  cost: number;
+};
+
+/**
+ * One pass of an ensemble run and what it produced.
+ */
+export type EnsembleHypothesis = {
+  label: string;
+  result: TranscriptionResult;
+};
+
+/**
+ * Cropped frames as sent to the model, with the media time (in seconds) of the source frame
+ * each was taken from and the effective sampling rate of the sequence.
+ */
+export type FrameSequence = {
+  frames: string[];
+  timestamps: number[];
+  fps: number;
+  /**
+   * Set when each of `frames` is a contact sheet of consecutive frames tiled in this layout;
+   * `timestamps` still has one entry per tile.
+   */
+  sheetLayout?: ContactSheetLayout;
+};
+
+/**
+ * The images sent to the model during a run, as kept for project export. With contact sheets,
+ * `timestamps` still has one entry per frame and `sheetFrameCounts` says how many frames each sheet
+ * tiles, since the last sheet of every window may be partly filled.
+ */
+export type SentFrames = {
+  frames: string[];
+  timestamps: number[];
+  sheetFrameCounts?: number[];
+};
+
+export type ContactSheetLayout = {
+  columns: number;
+  rows: number;
+};
+
+/**
+ * How frames are sent to the model: one image per frame, or tiled into contact sheets.
+ */
+export type FramePacking = 'frames' | 'grid-3x3' | 'grid-4x4';
+
+export type FrameDropReason = 'duplicate' | 'static';
+
+/**
+ * A candidate frame left out by motion-aware selection, kept for the debug view.
+ */
+export type DroppedFrame = {
+  frame: string;
+  timestamp: number;
+  reason: FrameDropReason;
+  /** Difference to the previous candidate frame (0–1). */
+  motion: number;
+};
+
+export type PreprocessingStepId = 'grayscale' | 'equalize' | 'contrast' | 'gamma' | 'sharpen' | 'denoise' | 'lipEmphasis';
+
+/**
+ * One image filter of the preprocessing chain applied to every mouth crop, in order.
+ */
+export type PreprocessingStep = {
+  id: PreprocessingStepId;
+  amount: number;
+};
+
+/**
+ * A finished run as stored in the IndexedDB history. The video itself is not stored;
+ * it is matched again by name, size and hash when the user re-selects it.
+ */
+export type HistoryEntry = {
+  id?: number;
+  createdAt: number;
+  fileName: string;
+  fileSize: number;
+  fileHash: string;
+  timeRange: TimeRange;
+  cropKeyframes: CropKeyframe[];
+  cropTrack: CropKeyframe[] | null;
+  /** Every speaker's crop in multi-speaker mode; the first one is `cropKeyframes`. */
+  speakers?: Speaker[];
+  language: string;
+  provider: ProviderId;
+  model: string;
+  prompt: string;
+  /** Absent in entries saved before prompt templates existed. */
+  promptTemplate?: PromptTemplateRef;
+  /** Absent in entries saved before the target was configurable, which used 'auto'. */
+  translationTarget?: string;
+  /** The result as plain text (transcript plus translation), as shown in lists and copied. */
+  transcription: string;
+  /** Absent in entries saved before structured output existed. */
+  result?: TranscriptionResult;
+  /** The individual passes when the result is an ensemble consensus. */
+  hypotheses?: EnsembleHypothesis[];
+  /** Each speaker's own transcription when the result is a multi-speaker dialogue. */
+  speakerTranscripts?: SpeakerTranscript[];
+  contextHints?: ContextHints;
+  segments: TranscriptSegment[];
+  /** Absent in entries saved before preprocessing existed. */
+  preprocessing?: PreprocessingStep[];
+  thumbnail?: string;
+};
+
+export type ExtractionSettings = {
+  /** Detected (or assumed) frame rate of the source video. */
+  sourceFps: number;
+  maxFrames: number;
+  frameQuality: number;
+  upscaleWidth: number;
+  upscaleHeight: number;
+  trackingEnabled: boolean;
+  longFormEnabled: boolean;
+  motionSelectionEnabled: boolean;
+  packing: FramePacking;
+  preprocessing: PreprocessingStep[];
+};
+
+/**
+ * Portable description of an analysis, saved as `project.json` (alone or inside a ZIP
+ * together with the exact frames sent to the model).
+ */
+export type ProjectFile = {
+  format: 'beizosgal-project';
+  version: 1;
+  savedAt: string;
+  video: {
+    fileName: string;
+    fileSize: number;
+    fileHash: string;
+  };
+  timeRange: TimeRange;
+  cropKeyframes: CropKeyframe[];
+  cropTrack: CropKeyframe[] | null;
+  speakers?: Speaker[];
+  language: string;
+  contextHints?: ContextHints;
+  extraction: ExtractionSettings;
+  provider: ProviderId;
+  model: string;
+  prompt: string;
+  promptTemplate?: PromptTemplateRef;
+  translationTarget?: string;
+  result: {
+    transcription: string;
+    segments: TranscriptSegment[];
+    /** Absent in projects saved before structured output existed. */
+    details?: TranscriptionResult;
+    hypotheses?: EnsembleHypothesis[];
+    speakerTranscripts?: SpeakerTranscript[];
+  };
+  frameCount: number;
+  /** Media time (in seconds) of each frame sent, one per tile with contact sheets; absent in older projects. */
+  frameTimestamps?: number[];
+  /** Frames tiled on each contact sheet sent; absent when frames were sent one per image. */
+  sheetFrameCounts?: number[];
+};
+
+/**
+ * Where the frames of an evaluation item come from: a video clip, a folder of frames numbered in
+ * playback order at `fps`, or a project ZIP exported from the app. Paths are relative to the manifest.
+ */
+export type EvaluationSource =
+  | { type: 'clip'; path: string }
+  | { type: 'frames'; path: string; fps: number }
+  | { type: 'project'; path: string };
+
+export type EvaluationItem = {
+  id: string;
+  source: EvaluationSource;
+  /** Part of the clip or frame folder to read; all of it when absent. Ignored for projects. */
+  timeRange?: TimeRange;
+  /** Mouth crop in source pixels: required for clips, absent for frame folders that already hold crops. Ignored for projects. */
+  crop?: CropArea;
+  reference: string;
+  language: string;
+};
+
+export type EvaluationManifest = {
+  name: string;
+  items: EvaluationItem[];
+};
+
+/**
+ * Edit distance between a hypothesis and its reference, in words or characters.
+ */
+export type ErrorRate = {
+  errors: number;
+  /** Length of the reference. */
+  length: number;
+  rate: number;
+};
+
+export type EvaluationItemResult = {
+  id: string;
+  reference: string;
+  hypothesis: string;
+  frameCount: number;
+  wer: ErrorRate;
+  cer: ErrorRate;
+  /** Set when the item could not be run; its rates then count every reference word as an error. */
+  error?: string;
+};
+
+export type EvaluationReport = {
+  manifest: string;
+  createdAt: string;
+  provider: ProviderId;
+  model: string;
+  promptTemplate: PromptTemplateRef;
+  items: EvaluationItemResult[];
+  /** Corpus-level rates: total errors over total reference length. */
+  wer: ErrorRate;
+  cer: ErrorRate;
+  failed: number;
+};
+
+/**
+ * A failed provider call waiting to be retried.
+ */
+export type RetryState = {
+  /** Number of this retry, from 1 to `maxRetries`. */
+  attempt: number;
+  maxRetries: number;
+  delaySeconds: number;
+  /** Message of the error being retried. */
+  reason: string;
+};
+
+/**
+ * What went wrong, as far as the user can act on it. Raised as an `AppError` by the media
+ * utilities and the providers.
+ */
+export type AppErrorKind =
+  | 'missing_input'
+  | 'unsupported_codec'
+  | 'decode_failed'
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'empty_response'
+  | 'network'
+  | 'budget_exceeded';
+
+/**
+ * A step offered next to an error: run the operation again, redraw the crop, pick a shorter
+ * range (fewer frames) or open the provider settings.
+ */
+export type RecoveryAction = 'retry' | 'change_crop' | 'reduce_frames' | 'open_settings';
+
+export type StatusError = {
+  /** What to do about it, in Galician; absent for unclassified errors. */
+  hint?: string;
+  actions: RecoveryAction[];
+};
+
 export type Status = {
   stage: 'idle' | 'processing' | 'analyzing' | 'success' | 'error' | 'generating_audio';
   message: string;
   progress?: number;
+  retry?: RetryState;
+  /** Set with the 'error' stage. */
+  error?: StatusError;
 };
 
+/**
+ * Which text of the result is read aloud.
+ */
+export type SpeechSource = 'transcript' | 'translation';
+
 export type Stage = 'uploading' | 'selecting_time' | 'cropping_area' | 'preview' | 'processing' | 'debugging';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+/**
+ * Whether provider calls go to the network untouched, are recorded with their responses, or are
+ * answered only from earlier recordings.
+ */
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export type ProviderSettings = {
+  provider: ProviderId;
+  visionModel: string;
+  ttsModel: string;
+  apiKey: string;
+  baseUrl: string;
+  cassetteMode: CassetteMode;
+  /** Time limit of each provider request; 0 for none. */
+  timeoutSeconds: number;
+  /** Retries of a request that failed with a transient error. */
+  maxRetries: number;
+};
+
+/**
+ * What identifies a provider call in a cassette. Frames and prompt are stored as SHA-256 hashes.
+ */
+export type CassetteRequest = {
+  kind: 'transcription' | 'speech';
+  provider: ProviderId;
+  model: string;
+  /** Hash of the prompt, or of the text to speak. */
+  promptHash: string;
+  frameHashes: string[];
+  config: { temperature?: number };
+};
+
+/**
+ * A recorded call: the structured transcription, or base64 PCM audio for speech.
+ */
+export type CassetteEntry = {
+  fingerprint: string;
+  request: CassetteRequest;
+  response: TranscriptionResult | string;
+  recordedAt: string;
+};
+
+/**
+ * Everything a batch job is transcribed with, copied from the editor when the job is added.
+ */
+export type BatchJobSettings = {
+  timeRange: TimeRange;
+  cropKeyframes: CropKeyframe[];
+  trackingEnabled: boolean;
+  language: string;
+  longFormEnabled: boolean;
+  motionSelectionEnabled: boolean;
+  framePacking: FramePacking;
+  ensembleSize: number;
+  preprocessing: PreprocessingStep[];
+  contextHints: ContextHints;
+  template: PromptTemplate;
+  translationTarget: string;
+};
+
+export type BatchJobStatus = 'pending' | 'running' | 'done' | 'error' | 'cancelled';
+
+export type BatchJob = {
+  id: string;
+  file: File;
+  sourceFps: number;
+  settings: BatchJobSettings;
+  status: BatchJobStatus;
+  /** From 0 to 1 while running. */
+  progress: number;
+  message: string;
+  /** Spending limit the job went over while the budget only warns. */
+  warning?: string;
+  result?: TranscriptionResult;
+  segments?: TranscriptSegment[];
+};
@@ -1,6 +1,7 @@
 // Audio decoding and playback helpers
 export const decodeBase64 = (base64: string): Uint8Array => {
-  const binaryString = window.atob(base64);
+  // Global atob, so this also works in workers and in the Node evaluation harness.
+  const binaryString = atob(base64);
   const len = binaryString.length;
   const bytes = new Uint8Array(len);
   for (let i = 0; i < len; i++) {
@@ -9,6 +10,15 @@ export const decodeBase64 = (base64: string): Uint8Array => {
   return bytes;
 };
 
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  let binaryString = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binaryString += String.fromCharCode(bytes[i]);
+  }
+  // Global btoa (not window.btoa) so this also works inside workers and Node.
+  return btoa(binaryString);
+};
+
 export const decodeAudioData = async (
   data: Uint8Array,
   ctx: AudioContext,
@@ -0,0 +1,39 @@
+import { BatchJob } from '../types';
+
+const CSV_COLUMNS = ['file', 'start', 'end', 'language', 'status', 'detectedLanguage', 'transcript', 'translation', 'message'];
+
+// Quotes a CSV field when it contains a separator, a quote or a line break.
+const csvField = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const jobRow = (job: BatchJob) => ({
+    file: job.file.name,
+    start: Number(job.settings.timeRange.start.toFixed(3)),
+    end: Number(job.settings.timeRange.end.toFixed(3)),
+    language: job.settings.language,
+    status: job.status,
+    detectedLanguage: job.result?.detectedLanguage ?? '',
+    transcript: job.result && !job.result.noSpeech ? job.result.transcript : '',
+    translation: job.result?.translation ?? '',
+    message: job.status === 'error' ? job.message : job.warning ?? '',
+});
+
+/**
+ * One row per job with its range, status and transcript, as RFC 4180 CSV.
+ */
+export const formatBatchCsv = (jobs: BatchJob[]): string => {
+    const rows = jobs.map(jobRow).map(row => CSV_COLUMNS.map(column => csvField(row[column as keyof typeof row])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+/**
+ * The same rows as the CSV plus each job's segments and full result.
+ */
+export const formatBatchJson = (jobs: BatchJob[]): string =>
+    JSON.stringify(jobs.map(job => ({
+        ...jobRow(job),
+        segments: job.segments ?? [],
+        result: job.result ?? null,
+    })), null, 2);
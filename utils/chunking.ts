@@ -0,0 +1,94 @@
+import { TimeRange, TranscriptSegment } from '../types';
+
+/**
+ * Length of each long-form window in seconds. Matches the ~3 second clips that
+ * give the best frame density (MAX_FRAMES frames per window).
+ */
+export const LONG_FORM_WINDOW_SECONDS = 3;
+
+/**
+ * Overlap between consecutive windows, so words cut at a boundary are seen whole in one of them.
+ */
+export const LONG_FORM_OVERLAP_SECONDS = 0.5;
+
+const NO_SPEECH_RESPONSE = 'Unclear or no speech detected.';
+
+/**
+ * Splits a range into windows of `windowSeconds` that overlap by `overlapSeconds`.
+ * The last window is shortened to end exactly at the end of the range.
+ */
+export const splitTimeRange = (
+    range: TimeRange,
+    windowSeconds: number = LONG_FORM_WINDOW_SECONDS,
+    overlapSeconds: number = LONG_FORM_OVERLAP_SECONDS,
+): TimeRange[] => {
+    const step = windowSeconds - overlapSeconds;
+    if (step <= 0) {
+        throw new Error('The window must be longer than the overlap.');
+    }
+
+    const windows: TimeRange[] = [];
+    for (let start = range.start; start < range.end; start += step) {
+        const end = Math.min(range.end, start + windowSeconds);
+        windows.push({ start, end });
+        if (end >= range.end) break;
+    }
+    return windows;
+};
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Removes from the start of `next` the longest run of words that repeats the end of `previous`,
+ * which is what overlapping windows typically produce.
+ */
+export const removeOverlap = (previous: string, next: string): string => {
+    const previousWords = previous.split(/\s+/).filter(Boolean).map(normalizeWord);
+    const nextWords = next.split(/\s+/).filter(Boolean);
+    const normalizedNext = nextWords.map(normalizeWord);
+    const maxOverlap = Math.min(previousWords.length, nextWords.length);
+
+    for (let size = maxOverlap; size > 0; size--) {
+        const tail = previousWords.slice(previousWords.length - size);
+        const head = normalizedNext.slice(0, size);
+        if (tail.every((word, i) => word !== '' && word === head[i])) {
+            return nextWords.slice(size).join(' ');
+        }
+    }
+    return nextWords.join(' ');
+};
+
+const isSpeech = (text: string) => text.trim() !== '' && text.trim() !== NO_SPEECH_RESPONSE;
+
+/**
+ * Turns per-window transcriptions into non-overlapping segments: repeated words at the
+ * seams are dropped and each overlap is split at its midpoint. Windows without speech are skipped.
+ */
+export const stitchSegments = (windows: TimeRange[], texts: string[]): TranscriptSegment[] => {
+    const segments: TranscriptSegment[] = [];
+    let previousText = '';
+
+    windows.forEach((window, index) => {
+        const raw = texts[index] ?? '';
+        if (!isSpeech(raw)) {
+            previousText = '';
+            return;
+        }
+
+        const text = removeOverlap(previousText, raw.trim());
+        previousText = raw.trim();
+        if (!text) return;
+
+        const previousWindow = windows[index - 1];
+        const nextWindow = windows[index + 1];
+        const start = previousWindow ? (window.start + previousWindow.end) / 2 : window.start;
+        const end = nextWindow ? (window.end + nextWindow.start) / 2 : window.end;
+
+        segments.push({ start, end, text });
+    });
+
+    return segments;
+};
+
+export const joinSegments = (segments: TranscriptSegment[]): string =>
+    segments.map(segment => segment.text).join(' ');
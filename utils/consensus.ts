@@ -0,0 +1,139 @@
+import { TranscribedWord, TranscriptionResult } from '../types';
+
+type Token = { text: string; key: string; word?: TranscribedWord };
+
+/**
+ * One position of the pivot hypothesis with what each hypothesis put there (null = nothing).
+ */
+type Slot = { pivot: Token; votes: (Token | null)[] };
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Words of a hypothesis, each with the structured word it came from when the model gave one in order.
+const tokenize = (result: TranscriptionResult): Token[] => {
+    if (result.noSpeech) return [];
+    let next = 0;
+    return result.transcript.split(/\s+/).filter(Boolean).map(text => {
+        const key = normalize(text);
+        const index = result.words.findIndex((w, i) => i >= next && normalize(w.text) === key);
+        if (index >= 0) next = index + 1;
+        return { text, key, word: index >= 0 ? result.words[index] : undefined };
+    }).filter(token => token.key !== '');
+};
+
+/**
+ * Word-level Levenshtein alignment. Returns, for every word of `a`, the index of the word of `b`
+ * aligned to it (or -1), plus the words of `b` inserted before each position of `a`.
+ */
+const align = (a: Token[], b: Token[]) => {
+    const cost: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+        Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const substitution = cost[i - 1][j - 1] + (a[i - 1].key === b[j - 1].key ? 0 : 1);
+            cost[i][j] = Math.min(substitution, cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+        }
+    }
+
+    const matches = new Array<number>(a.length).fill(-1);
+    const insertions: Token[][] = Array.from({ length: a.length + 1 }, () => []);
+    let i = a.length;
+    let j = b.length;
+    while (i > 0 || j > 0) {
+        if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (a[i - 1].key === b[j - 1].key ? 0 : 1)) {
+            matches[i - 1] = j - 1;
+            i--;
+            j--;
+        } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+            i--;
+        } else {
+            insertions[i].unshift(b[j - 1]);
+            j--;
+        }
+    }
+    return { matches, insertions, distance: cost[a.length][b.length] };
+};
+
+const mostCommon = (values: string[]): string | undefined => {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+    return [...counts.entries()].sort((x, y) => y[1] - x[1])[0]?.[0];
+};
+
+/**
+ * Combines several hypotheses into a consensus transcript. The hypothesis closest to all the others
+ * (fewest word edits) is the pivot; every other one is aligned to it and each position takes the
+ * majority word. A word missing from the pivot is added when most hypotheses insert it at the same
+ * place. Each consensus word's `confidence` is the share of hypotheses that agree with it; its frames
+ * come from a hypothesis that voted for it.
+ */
+export const buildConsensus = (results: TranscriptionResult[]): TranscriptionResult => {
+    if (results.length === 0) {
+        throw new Error('No hypotheses to combine.');
+    }
+    const speaking = results.filter(result => !result.noSpeech);
+    if (speaking.length * 2 <= results.length) {
+        return { ...results[0], transcript: '', words: [], translation: null, noSpeech: true };
+    }
+
+    const tokens = results.map(tokenize);
+    const pivotIndex = tokens
+        .map((candidate, i) => ({ i, total: tokens.reduce((sum, other) => sum + align(candidate, other).distance, 0) }))
+        .sort((x, y) => x.total - y.total)[0].i;
+    const pivot = tokens[pivotIndex];
+
+    const slots: Slot[] = pivot.map(token => ({ pivot: token, votes: [] }));
+    // Words inserted before pivot position i (or at the end, for i = pivot.length), grouped by text.
+    const insertionVotes = Array.from({ length: pivot.length + 1 }, () => new Map<string, { tokens: Token[]; count: number }>());
+
+    tokens.forEach(hypothesis => {
+        const { matches, insertions } = align(pivot, hypothesis);
+        slots.forEach((slot, i) => slot.votes.push(matches[i] >= 0 ? hypothesis[matches[i]] : null));
+        insertions.forEach((inserted, i) => {
+            if (inserted.length === 0) return;
+            const key = inserted.map(token => token.key).join(' ');
+            const entry = insertionVotes[i].get(key) ?? { tokens: inserted, count: 0 };
+            entry.count++;
+            insertionVotes[i].set(key, entry);
+        });
+    });
+
+    const words: TranscribedWord[] = [];
+    const total = results.length;
+    const addInsertions = (i: number) => {
+        const best = [...insertionVotes[i].values()].sort((x, y) => y.count - x.count)[0];
+        if (!best || best.count * 2 <= total) return;
+        best.tokens.forEach(token => words.push({
+            text: token.text,
+            startFrame: token.word?.startFrame ?? 1,
+            endFrame: token.word?.endFrame ?? 1,
+            confidence: best.count / total,
+        }));
+    };
+
+    slots.forEach((slot, i) => {
+        addInsertions(i);
+        const present = slot.votes.filter((vote): vote is Token => !!vote);
+        // Hypotheses with nothing here vote to drop the word.
+        if (present.length * 2 < total) return;
+        const winner = mostCommon(present.map(vote => vote.key)) ?? slot.pivot.key;
+        const agreeing = present.filter(vote => vote.key === winner);
+        const source = agreeing.find(vote => vote.word) ?? agreeing[0];
+        words.push({
+            text: winner === slot.pivot.key ? slot.pivot.text : source.text,
+            startFrame: source.word?.startFrame ?? slot.pivot.word?.startFrame ?? 1,
+            endFrame: source.word?.endFrame ?? slot.pivot.word?.endFrame ?? 1,
+            confidence: agreeing.length / total,
+        });
+    });
+    addInsertions(pivot.length);
+
+    const transcript = words.map(word => word.text).join(' ');
+    return {
+        transcript,
+        detectedLanguage: mostCommon(speaking.map(result => result.detectedLanguage).filter(Boolean)) ?? '',
+        translation: results[pivotIndex].translation,
+        words,
+        noSpeech: transcript === '',
+    };
+};
@@ -0,0 +1,19 @@
+import { ContextHints } from '../types';
+
+export const EMPTY_CONTEXT_HINTS: ContextHints = {
+    topic: '',
+    speakers: [],
+    expectedPhrases: [],
+    vocabulary: [],
+};
+
+export const hasContextHints = (hints: ContextHints | undefined): hints is ContextHints =>
+    !!hints && (!!hints.topic.trim() || hints.speakers.length > 0 || hints.expectedPhrases.length > 0 || hints.vocabulary.length > 0);
+
+/**
+ * Splits a textarea value into entries, one per line, dropping blanks and repeats.
+ */
+export const parseHintList = (text: string): string[] =>
+    [...new Set(text.split('\n').map(line => line.trim()).filter(Boolean))];
+
+export const formatHintList = (entries: string[]): string => entries.join('\n');
@@ -0,0 +1,62 @@
+import { CropArea, CropKeyframe } from '../types';
+
+/**
+ * Keyframes closer than this (in seconds) are considered the same keyframe.
+ */
+export const KEYFRAME_TIME_TOLERANCE = 0.05;
+
+export const sortKeyframes = (keyframes: CropKeyframe[]): CropKeyframe[] =>
+    [...keyframes].sort((a, b) => a.time - b.time);
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Returns the crop for a given time. Before the first keyframe and after the last one
+ * the crop is held; in between it is linearly interpolated.
+ * Expects keyframes sorted by time (see `sortKeyframes`).
+ */
+export const interpolateCrop = (keyframes: CropKeyframe[], time: number): CropArea => {
+    if (keyframes.length === 0) {
+        return { x: 0, y: 0, width: 0, height: 0 };
+    }
+    if (time <= keyframes[0].time) return keyframes[0].crop;
+    const last = keyframes[keyframes.length - 1];
+    if (time >= last.time) return last.crop;
+
+    const nextIndex = keyframes.findIndex(k => k.time > time);
+    const prev = keyframes[nextIndex - 1];
+    const next = keyframes[nextIndex];
+    const t = (time - prev.time) / (next.time - prev.time);
+
+    return {
+        x: lerp(prev.crop.x, next.crop.x, t),
+        y: lerp(prev.crop.y, next.crop.y, t),
+        width: lerp(prev.crop.width, next.crop.width, t),
+        height: lerp(prev.crop.height, next.crop.height, t),
+    };
+};
+
+/**
+ * Grows the crop around its centre until it matches the given aspect ratio (width / height),
+ * so interpolated crops of different shapes can be drawn into the same canvas without distortion.
+ */
+export const fitCropToAspect = (crop: CropArea, aspect: number): CropArea => {
+    const currentAspect = crop.width / crop.height;
+    if (!isFinite(currentAspect) || Math.abs(currentAspect - aspect) < 1e-3) return crop;
+
+    const centerX = crop.x + crop.width / 2;
+    const centerY = crop.y + crop.height / 2;
+    const width = currentAspect < aspect ? crop.height * aspect : crop.width;
+    const height = currentAspect < aspect ? crop.height : crop.width / aspect;
+
+    return { x: centerX - width / 2, y: centerY - height / 2, width, height };
+};
+
+/**
+ * Inserts a keyframe, replacing any existing one at (almost) the same time.
+ */
+export const upsertKeyframe = (keyframes: CropKeyframe[], keyframe: CropKeyframe): CropKeyframe[] =>
+    sortKeyframes([
+        ...keyframes.filter(k => Math.abs(k.time - keyframe.time) > KEYFRAME_TIME_TOLERANCE),
+        keyframe,
+    ]);
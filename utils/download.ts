@@ -0,0 +1,20 @@
+/**
+ * Saves a string as a file through a temporary object URL.
+ */
+export const downloadTextFile = (fileName: string, content: string, mimeType: string) => {
+    downloadBlob(fileName, new Blob([content], { type: mimeType }));
+};
+
+export const downloadBlob = (fileName: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Strips the extension from a file name, e.g. to name exports after the source video.
+ */
+export const baseFileName = (fileName: string) => fileName.replace(/\.[^./\\]+$/, '');
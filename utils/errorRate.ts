@@ -0,0 +1,50 @@
+import { ErrorRate } from '../types';
+
+/**
+ * Text as scored: lower case, without punctuation, single spaces. Accents are kept, as they
+ * tell words apart in Galician and Spanish.
+ */
+export const normalizeForScoring = (text: string): string =>
+    text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+// Levenshtein distance between two token sequences, keeping one row at a time.
+const editDistance = <T>(a: T[], b: T[]): number => {
+    let previous = b.map((_, j) => j + 1);
+    previous.unshift(0);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1), previous[j] + 1, current[j - 1] + 1);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const toRate = (errors: number, length: number): ErrorRate => ({
+    errors,
+    length,
+    // An empty reference scores 0 when the hypothesis is empty too, and 1 otherwise.
+    rate: length > 0 ? errors / length : errors > 0 ? 1 : 0,
+});
+
+const words = (text: string) => normalizeForScoring(text).split(' ').filter(Boolean);
+
+export const wordErrorRate = (reference: string, hypothesis: string): ErrorRate => {
+    const ref = words(reference);
+    return toRate(editDistance(ref, words(hypothesis)), ref.length);
+};
+
+/**
+ * Character error rate over the normalized texts, spaces included.
+ */
+export const characterErrorRate = (reference: string, hypothesis: string): ErrorRate => {
+    const ref = [...normalizeForScoring(reference)];
+    return toRate(editDistance(ref, [...normalizeForScoring(hypothesis)]), ref.length);
+};
+
+/**
+ * Corpus-level rate: the errors of all items over the length of all references.
+ */
+export const combineErrorRates = (rates: ErrorRate[]): ErrorRate =>
+    toRate(rates.reduce((sum, r) => sum + r.errors, 0), rates.reduce((sum, r) => sum + r.length, 0));
@@ -0,0 +1,126 @@
+import { AppErrorKind, RecoveryAction, Status } from '../types';
+
+/**
+ * A failure classified by kind, so the status panel can explain it and offer recovery actions.
+ * `message` is the technical detail; `status` is the HTTP status when there was one.
+ */
+export class AppError extends Error {
+    readonly kind: AppErrorKind;
+    readonly status?: number;
+
+    constructor(kind: AppErrorKind, message: string, status?: number) {
+        super(message);
+        this.name = 'AppError';
+        this.kind = kind;
+        this.status = status;
+    }
+}
+
+type ErrorGuide = { title: string; hint: string; actions: RecoveryAction[] };
+
+const ERROR_GUIDES: Record<AppErrorKind, ErrorGuide> = {
+    missing_input: {
+        title: 'Faltan datos para continuar',
+        hint: 'Sube un vídeo, escolle o intervalo e debuxa o recorte da boca.',
+        actions: ['change_crop'],
+    },
+    unsupported_codec: {
+        title: 'O navegador non pode decodificar este vídeo',
+        hint: 'Converte o vídeo a MP4 (H.264) e vólveo subir.',
+        actions: [],
+    },
+    decode_failed: {
+        title: 'Non se puideron ler os fotogramas do vídeo',
+        hint: 'Volve intentalo ou escolle un intervalo máis curto.',
+        actions: ['retry', 'reduce_frames'],
+    },
+    auth: {
+        title: 'A API key non é válida ou non ten permiso',
+        hint: 'Revisa a API key e o provedor no panel de axustes.',
+        actions: ['open_settings'],
+    },
+    quota: {
+        title: 'Superouse a cota ou o límite de peticións do provedor',
+        hint: 'Agarda un pouco antes de reintentar, ou envía menos fotogramas escollendo un intervalo máis curto.',
+        actions: ['retry', 'reduce_frames'],
+    },
+    safety: {
+        title: 'O provedor bloqueou a petición polos seus filtros de seguridade',
+        hint: 'Axusta o recorte para que mostre só a boca e volve intentalo.',
+        actions: ['change_crop', 'retry'],
+    },
+    empty_response: {
+        title: 'O modelo devolveu unha resposta baleira',
+        hint: 'Volve intentalo; se se repite, envía menos fotogramas.',
+        actions: ['retry', 'reduce_frames'],
+    },
+    network: {
+        title: 'Non se puido contactar co provedor',
+        hint: 'Comproba a conexión e a URL base nos axustes, e volve intentalo.',
+        actions: ['retry', 'open_settings'],
+    },
+    budget_exceeded: {
+        title: 'A transcrición superaría o orzamento de gasto',
+        hint: 'Envía menos fotogramas escollendo un intervalo máis curto, usa menos pasadas ou sube o límite no resumo de custo.',
+        actions: ['reduce_frames'],
+    },
+};
+
+export const RECOVERY_ACTION_LABELS: Record<RecoveryAction, string> = {
+    retry: 'Reintentar',
+    change_crop: 'Cambiar o recorte',
+    reduce_frames: 'Reducir fotogramas',
+    open_settings: 'Abrir axustes',
+};
+
+const kindForStatus = (status: number): AppErrorKind | null => {
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 429) return 'quota';
+    if (status === 408 || status >= 500) return 'network';
+    return null;
+};
+
+// The Gemini SDK reports some failures only through the message text.
+const MESSAGE_KINDS: [RegExp, AppErrorKind][] = [
+    [/API[_ ]key|PERMISSION_DENIED|UNAUTHENTICATED/i, 'auth'],
+    [/RESOURCE_EXHAUSTED|quota|rate limit/i, 'quota'],
+    [/\bSAFETY\b|PROHIBITED_CONTENT/, 'safety'],
+];
+
+/**
+ * Classifies an error thrown while calling a provider. Cancellations and timeouts are returned
+ * untouched so the retry logic and the UI still recognize them; anything unrecognized too.
+ */
+export const toProviderError = (error: unknown): unknown => {
+    if (error instanceof AppError) return error;
+    const name = (error as { name?: unknown })?.name;
+    if (name === 'AbortError' || name === 'TimeoutError') return error;
+    // fetch reports network failures (connection refused, DNS, CORS) as a bare TypeError.
+    if (error instanceof TypeError) return new AppError('network', error.message);
+
+    const message = error instanceof Error ? error.message : String(error);
+    const status = (error as { status?: unknown })?.status;
+    const kind = (typeof status === 'number' ? kindForStatus(status) : null)
+        ?? MESSAGE_KINDS.find(([pattern]) => pattern.test(message))?.[1];
+    return kind ? new AppError(kind, message, typeof status === 'number' ? status : undefined) : error;
+};
+
+/**
+ * The error status shown for a failed operation: the title, detail, hint and recovery actions of
+ * its kind, or `fallback` and the message when it is not an `AppError`.
+ */
+export const errorStatus = (error: unknown, fallback: string = 'Ocorreu un erro'): Status => {
+    if ((error as { name?: unknown })?.name === 'TimeoutError') {
+        error = new AppError('network', (error as Error).message);
+    }
+    if (error instanceof AppError) {
+        const guide = ERROR_GUIDES[error.kind];
+        return {
+            stage: 'error',
+            message: error.message ? `${guide.title}: ${error.message}` : `${guide.title}.`,
+            error: { hint: guide.hint, actions: guide.actions },
+        };
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { stage: 'error', message: `${fallback}: ${message}`, error: { actions: ['retry'] } };
+};
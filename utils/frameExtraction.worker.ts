@@ -0,0 +1,237 @@
+import { createFile, DataStream, Endianness, MP4BoxBuffer } from 'mp4box';
+import type { Box, Movie, Sample } from 'mp4box';
+import { CropKeyframe } from '../types';
+import { fitCropToAspect, interpolateCrop } from './crop';
+import { encodeBase64 } from './audio';
+
+/**
+ * Frame extraction off the main thread: the file is demuxed with mp4box, decoded with
+ * WebCodecs and cropped on an OffscreenCanvas. Only ISO BMFF files (MP4/MOV) with a codec
+ * the browser can decode are handled; anything else is reported as `unsupported` so the
+ * caller can fall back to the seek-based extraction.
+ */
+
+export type FrameExtractionRequest = {
+    file: File;
+    /** Planned frame start times (see `planSampleTimes`). */
+    sampleTimes: number[];
+    /** Duration of one source frame, used to match decoded frames to the planned times. */
+    frameDuration: number;
+    keyframes: CropKeyframe[];
+    frameQuality: number;
+    outputWidth: number;
+    outputHeight: number;
+};
+
+export type FrameExtractionMessage =
+    | { type: 'progress'; progress: number }
+    | { type: 'done'; frames: string[]; timestamps: number[] }
+    | { type: 'unsupported'; reason: string }
+    | { type: 'error'; message: string };
+
+/**
+ * Bytes read from the file per step. The file is streamed into the demuxer rather than loaded whole.
+ */
+const READ_CHUNK_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Samples handed to the decoder before waiting for it to catch up.
+ */
+const MAX_DECODE_QUEUE = 16;
+
+class UnsupportedError extends Error {}
+
+const post = (message: FrameExtractionMessage) => self.postMessage(message);
+
+// The codec configuration boxes a sample entry may carry, set by mp4box under their box type.
+type CodecConfigBoxes = { avcC?: Box; hvcC?: Box; vpcC?: Box; av1C?: Box };
+
+const getDecoderDescription = (mp4: ReturnType<typeof createFile>, trackId: number): Uint8Array | undefined => {
+    const trak = mp4.getTrackById(trackId);
+    for (const entry of trak.mdia.minf.stbl.stsd.entries) {
+        const { avcC, hvcC, vpcC, av1C } = entry as CodecConfigBoxes;
+        const box = avcC || hvcC || vpcC || av1C;
+        if (box) {
+            const stream = new DataStream(undefined, 0, Endianness.BIG_ENDIAN);
+            box.write(stream);
+            // Skip the 8-byte box header; the decoder wants only the box payload.
+            return new Uint8Array(stream.buffer, 8);
+        }
+    }
+    return undefined;
+};
+
+// Seconds to add to a sample's composition time to get its presentation time, from the edit list as
+// browsers play it: leading empty edits delay the track, and the first media edit starts playback at
+// its `media_time` rather than at 0.
+const getPresentationOffset = (track: Movie['videoTracks'][number]): number => {
+    let delay = 0;
+    for (const edit of track.edits ?? []) {
+        if (edit.media_time === -1) {
+            delay += edit.segment_duration / track.movie_timescale;
+        } else {
+            return delay - edit.media_time / track.timescale;
+        }
+    }
+    return delay;
+};
+
+const waitForDecoder = async (decoder: VideoDecoder) => {
+    while (decoder.decodeQueueSize > MAX_DECODE_QUEUE) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+};
+
+async function extractFrames(request: FrameExtractionRequest): Promise<{ frames: string[]; timestamps: number[] }> {
+    const { file, sampleTimes: targets, frameDuration, keyframes, frameQuality, outputWidth, outputHeight } = request;
+    if (targets.length === 0) return { frames: [], timestamps: [] };
+
+    const canvas = new OffscreenCanvas(outputWidth, outputHeight);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new UnsupportedError('Could not get OffscreenCanvas context.');
+    }
+    const aspect = keyframes[0].crop.width / keyframes[0].crop.height;
+    const encodedFrames: Promise<Blob>[] = [];
+    const timestamps: number[] = [];
+    let nextTarget = 0;
+    let previousFrame: VideoFrame | null = null;
+    let decodeError: Error | null = null;
+
+    // Draws the frame for the target time; the canvas is copied synchronously by convertToBlob.
+    // The decoded frame's own timestamp is recorded, not the planned one.
+    const renderTarget = (frame: VideoFrame) => {
+        const frameTime = frame.timestamp / 1e6;
+        const crop = fitCropToAspect(interpolateCrop(keyframes, frameTime), aspect);
+        timestamps.push(frameTime);
+        context.imageSmoothingQuality = 'high';
+        context.drawImage(frame, crop.x, crop.y, crop.width, crop.height, 0, 0, outputWidth, outputHeight);
+        encodedFrames.push(canvas.convertToBlob({ type: 'image/jpeg', quality: frameQuality }));
+        nextTarget++;
+        post({ type: 'progress', progress: nextTarget / targets.length });
+    };
+
+    // Frames arrive in presentation order. A target is served by the last frame starting before
+    // it plus half a frame (timestamps are rarely exact), so each new frame settles every target
+    // that precedes it.
+    const tolerance = frameDuration / 2;
+    const decoder = new VideoDecoder({
+        output: (frame) => {
+            const time = frame.timestamp / 1e6;
+            while (nextTarget < targets.length && targets[nextTarget] + tolerance < time) {
+                renderTarget(previousFrame ?? frame);
+            }
+            previousFrame?.close();
+            previousFrame = nextTarget < targets.length ? frame : null;
+            if (!previousFrame) frame.close();
+        },
+        error: (error) => {
+            decodeError = error instanceof Error ? error : new Error(String(error));
+        },
+    });
+
+    const mp4 = createFile();
+    let movie: Movie | null = null;
+    const pendingSamples: Sample[] = [];
+    mp4.onReady = (info) => { movie = info; };
+    mp4.onSamples = (_id, _user, samples) => { pendingSamples.push(...samples); };
+    mp4.onError = (_module, message) => { decodeError = new UnsupportedError(message); };
+
+    let offset = 0;
+    const appendChunk = async () => {
+        const buffer = await file.slice(offset, offset + READ_CHUNK_BYTES).arrayBuffer();
+        const isLast = offset + buffer.byteLength >= file.size;
+        const nextOffset = mp4.appendBuffer(MP4BoxBuffer.fromArrayBuffer(buffer, offset), isLast);
+        offset = nextOffset > offset ? nextOffset : offset + buffer.byteLength;
+    };
+
+    while (!movie && offset < file.size && !decodeError) {
+        await appendChunk();
+    }
+    if (!movie) {
+        throw new UnsupportedError(decodeError?.message ?? 'Not an MP4/MOV file.');
+    }
+    const track = (movie as Movie).videoTracks[0];
+    if (!track) {
+        throw new UnsupportedError('The file has no video track.');
+    }
+
+    const config: VideoDecoderConfig = {
+        codec: track.codec,
+        codedWidth: track.video?.width ?? track.track_width,
+        codedHeight: track.video?.height ?? track.track_height,
+        description: getDecoderDescription(mp4, track.id),
+    };
+    const support = await VideoDecoder.isConfigSupported(config);
+    if (!support.supported) {
+        throw new UnsupportedError(`Codec ${track.codec} is not supported by this browser.`);
+    }
+    decoder.configure(config);
+    // Sample times are in the track's media timeline; frames and targets are in presentation time.
+    const presentationOffset = getPresentationOffset(track);
+
+    mp4.setExtractionOptions(track.id, null, { nbSamples: 50 });
+    mp4.start();
+    // Jump to the key frame before the range instead of decoding from the beginning.
+    offset = mp4.seek(Math.max(0, targets[0] - presentationOffset), true).offset;
+
+    let sawKeyFrame = false;
+    const lastUsefulTime = targets[targets.length - 1];
+    let pastRange = false;
+
+    const feedSamples = async () => {
+        while (pendingSamples.length > 0 && !pastRange) {
+            const sample = pendingSamples.shift()!;
+            if (!sample.data) continue;
+            if (!sawKeyFrame && !sample.is_sync) continue;
+            sawKeyFrame = true;
+
+            const decodeTime = sample.dts / sample.timescale + presentationOffset;
+            decoder.decode(new EncodedVideoChunk({
+                type: sample.is_sync ? 'key' : 'delta',
+                timestamp: 1e6 * (sample.cts / sample.timescale + presentationOffset),
+                duration: (1e6 * sample.duration) / sample.timescale,
+                data: sample.data,
+            }));
+            mp4.releaseUsedSamples(track.id, sample.number);
+            // B-frames can present earlier than they decode, so keep going one second past the range.
+            if (decodeTime > lastUsefulTime + 1) pastRange = true;
+            await waitForDecoder(decoder);
+            if (decodeError) throw decodeError;
+        }
+    };
+
+    while (offset < file.size && !pastRange && nextTarget < targets.length) {
+        await appendChunk();
+        await feedSamples();
+    }
+    mp4.flush();
+    await feedSamples();
+    await decoder.flush();
+    if (decodeError) throw decodeError;
+
+    // Targets after the last decoded frame (e.g. at the very end of the file) reuse it.
+    const lastFrame = previousFrame as VideoFrame | null;
+    if (lastFrame) {
+        while (nextTarget < targets.length) renderTarget(lastFrame);
+        lastFrame.close();
+    }
+    decoder.close();
+
+    const blobs = await Promise.all(encodedFrames);
+    const frames = await Promise.all(blobs.map(async blob => encodeBase64(new Uint8Array(await blob.arrayBuffer()))));
+    return { frames, timestamps };
+}
+
+self.onmessage = async (event: MessageEvent<FrameExtractionRequest>) => {
+    try {
+        const { frames, timestamps } = await extractFrames(event.data);
+        post({ type: 'done', frames, timestamps });
+    } catch (error) {
+        if (error instanceof UnsupportedError) {
+            post({ type: 'unsupported', reason: error.message });
+        } else {
+            post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+        }
+    }
+};
@@ -0,0 +1,84 @@
+import { FrameDropReason } from '../types';
+import { GrayImage } from './tracking';
+
+/**
+ * Mean absolute difference (0–1) below which a frame is considered a copy of the last kept one.
+ * JPEG noise alone stays well under it.
+ */
+const DUPLICATE_THRESHOLD = 0.012;
+
+export type FrameSelection = {
+    /** Indices of the kept frames, in order. */
+    kept: number[];
+    dropped: { index: number; reason: FrameDropReason }[];
+    /** Difference of every frame to the one before it (0 for the first). */
+    motion: number[];
+};
+
+/**
+ * Mean absolute difference between two same-sized gray images, scaled to 0–1. The mean
+ * brightness is subtracted first so flicker and exposure changes do not count as motion.
+ */
+export const frameDifference = (a: GrayImage, b: GrayImage): number => {
+    const length = Math.min(a.data.length, b.data.length);
+    if (length === 0) return 0;
+    let meanA = 0;
+    let meanB = 0;
+    for (let i = 0; i < length; i++) {
+        meanA += a.data[i];
+        meanB += b.data[i];
+    }
+    const offset = (meanB - meanA) / length;
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+        sum += Math.abs(b.data[i] - a.data[i] - offset);
+    }
+    return sum / length / 255;
+};
+
+/**
+ * Picks the informative frames of a densely sampled sequence. Near-duplicates of the last kept
+ * frame are dropped first; if more than `maxFrames` remain, the frame most similar to a kept
+ * neighbour is dropped repeatedly, which thins static stretches and leaves sampling dense
+ * around articulation peaks. The first and last frames are always kept.
+ */
+export const selectFramesByMotion = (signatures: GrayImage[], maxFrames: number): FrameSelection => {
+    const motion = signatures.map((signature, i) => (i === 0 ? 0 : frameDifference(signatures[i - 1], signature)));
+    const dropped: FrameSelection['dropped'] = [];
+    if (signatures.length <= 2) {
+        return { kept: signatures.map((_, i) => i), dropped, motion };
+    }
+
+    const kept = [0];
+    for (let i = 1; i < signatures.length; i++) {
+        const isLast = i === signatures.length - 1;
+        if (!isLast && frameDifference(signatures[kept[kept.length - 1]], signatures[i]) < DUPLICATE_THRESHOLD) {
+            dropped.push({ index: i, reason: 'duplicate' });
+        } else {
+            kept.push(i);
+        }
+    }
+
+    // Cost of dropping kept[k]: how close it is to its nearest kept neighbour.
+    const removalCost = (k: number) => Math.min(
+        frameDifference(signatures[kept[k - 1]], signatures[kept[k]]),
+        frameDifference(signatures[kept[k]], signatures[kept[k + 1]])
+    );
+    const costs = kept.map((_, k) => (k === 0 || k === kept.length - 1 ? Infinity : removalCost(k)));
+
+    while (kept.length > Math.max(2, maxFrames)) {
+        let cheapest = 1;
+        for (let k = 2; k < kept.length - 1; k++) {
+            if (costs[k] < costs[cheapest]) cheapest = k;
+        }
+        dropped.push({ index: kept[cheapest], reason: 'static' });
+        kept.splice(cheapest, 1);
+        costs.splice(cheapest, 1);
+        for (const k of [cheapest - 1, cheapest]) {
+            if (k > 0 && k < kept.length - 1) costs[k] = removalCost(k);
+        }
+    }
+
+    dropped.sort((a, b) => a.index - b.index);
+    return { kept, dropped, motion };
+};
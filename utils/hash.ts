@@ -0,0 +1,30 @@
+/**
+ * Bytes read from each end of large files when fingerprinting them.
+ * Hashing a whole multi-gigabyte video would stall the browser for no benefit.
+ */
+const HASH_SAMPLE_BYTES = 4 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer) =>
+    Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const sha256Hex = async (data: BufferSource | string): Promise<string> => {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    return toHex(await crypto.subtle.digest('SHA-256', bytes));
+};
+
+/**
+ * SHA-256 fingerprint of a file. Small files are hashed whole; large ones by their size,
+ * first and last HASH_SAMPLE_BYTES, which is enough to recognise the same video again.
+ */
+export const hashFile = async (file: File): Promise<string> => {
+    if (file.size <= HASH_SAMPLE_BYTES * 2) {
+        return sha256Hex(await file.arrayBuffer());
+    }
+    const head = await file.slice(0, HASH_SAMPLE_BYTES).arrayBuffer();
+    const tail = await file.slice(file.size - HASH_SAMPLE_BYTES).arrayBuffer();
+    const combined = new Uint8Array(head.byteLength + tail.byteLength + 8);
+    combined.set(new Uint8Array(head), 0);
+    combined.set(new Uint8Array(tail), head.byteLength);
+    new DataView(combined.buffer).setFloat64(head.byteLength + tail.byteLength, file.size);
+    return sha256Hex(combined);
+};
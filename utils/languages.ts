@@ -0,0 +1,37 @@
+export type LanguageOption = { value: string; label: string };
+
+/**
+ * Languages the speaker can be set to; values are the English names the prompt uses and
+ * 'auto' lets the model detect the language.
+ */
+export const SPOKEN_LANGUAGES: LanguageOption[] = [
+    { value: 'auto', label: 'Autodetectar (menos preciso)' },
+    { value: 'English', label: 'Inglés' },
+    { value: 'Spanish', label: 'Castelán' },
+    { value: 'Galician', label: 'Galego' },
+    { value: 'French', label: 'Francés' },
+    { value: 'German', label: 'Alemán' },
+    { value: 'Italian', label: 'Italiano' },
+    { value: 'Portuguese', label: 'Portugués' },
+    { value: 'Mandarin Chinese', label: 'Mandarín' },
+    { value: 'Japanese', label: 'Xaponés' },
+    { value: 'Korean', label: 'Coreano' },
+    { value: 'Russian', label: 'Ruso' },
+    { value: 'Arabic', label: 'Árabe' },
+    { value: 'Hindi', label: 'Hindi' },
+];
+
+/**
+ * Targets for the translation: any spoken language, none, or the original rule ('auto').
+ */
+export const TRANSLATION_TARGETS: LanguageOption[] = [
+    { value: 'auto', label: 'Castelán, salvo se fala galego, castelán ou inglés' },
+    { value: 'none', label: 'Sen tradución' },
+    ...SPOKEN_LANGUAGES.filter(language => language.value !== 'auto'),
+];
+
+/**
+ * Galician name of a language given by its English name, e.g. 'castelán' for 'Spanish'.
+ */
+export const languageName = (value: string) =>
+    SPOKEN_LANGUAGES.find(language => language.value === value)?.label.toLowerCase() ?? value;
@@ -1,11 +1,12 @@
-import { CropArea, TimeRange } from '../types';
-
-/**
- * Maximum number of frames to extract to avoid excessive API usage/cost and client-side processing.
- * For optimal lip reading accuracy, keep video clips to ~3 seconds to maximize frame density
- * (at ~30fps, 3 seconds = 90 frames which matches this limit).
- */
-const MAX_FRAMES = 90;
+import { ContactSheetLayout, CropArea, CropKeyframe, DroppedFrame, FramePacking, FrameSequence, PreprocessingStep, TimeRange } from '../types';
+import { fitCropToAspect, interpolateCrop } from './crop';
+import { createTemplateTracker, smoothTrack, toGrayscale, GrayImage } from './tracking';
+import { applyPreprocessing } from './preprocessing';
+import { selectFramesByMotion } from './frameSelection';
+import { planSampleTimes, getSamplingRate, MAX_FRAMES } from './sampling';
+import { LONG_FORM_WINDOW_SECONDS } from './chunking';
+import { AppError } from './errors';
+import type { FrameExtractionRequest, FrameExtractionMessage } from './frameExtraction.worker';
 
 /**
  * JPEG quality for extracted frames (0-1).
@@ -20,6 +21,70 @@ const FRAME_QUALITY = 0.95;
 const UPSCALE_WIDTH = 512;
 const UPSCALE_HEIGHT = 512;
 
+/**
+ * Width (in pixels) the full frame is downscaled to before mouth tracking.
+ * Template matching is quadratic in resolution, and this is plenty to follow a mouth.
+ */
+const TRACKING_WIDTH = 320;
+
+/**
+ * Frames per second sampled for mouth tracking: the density of one full long-form window, so a
+ * long range is followed as closely as a short clip instead of MAX_FRAMES samples spread thin.
+ */
+const TRACKING_SAMPLES_PER_SECOND = MAX_FRAMES / LONG_FORM_WINDOW_SECONDS;
+
+/**
+ * Frames extracted before motion-aware selection narrows them down to MAX_FRAMES.
+ * Sampling twice as densely leaves room to keep more frames around articulation peaks.
+ */
+export const MAX_CANDIDATE_FRAMES = MAX_FRAMES * 2;
+
+/**
+ * Width (in pixels) frames are downscaled to when comparing them for motion.
+ */
+const SIGNATURE_WIDTH = 64;
+
+/**
+ * Width (in pixels) of a contact sheet; tiles are scaled down to fit the columns.
+ */
+export const CONTACT_SHEET_WIDTH = 1024;
+
+export const CONTACT_SHEET_LAYOUTS: Record<Exclude<FramePacking, 'frames'>, ContactSheetLayout> = {
+  'grid-3x3': { columns: 3, rows: 3 },
+  'grid-4x4': { columns: 4, rows: 4 },
+};
+
+/**
+ * The fixed extraction parameters, recorded with exported projects so a run can be reproduced.
+ */
+export const EXTRACTION_SETTINGS = {
+  maxFrames: MAX_FRAMES,
+  frameQuality: FRAME_QUALITY,
+  upscaleWidth: UPSCALE_WIDTH,
+  upscaleHeight: UPSCALE_HEIGHT,
+};
+
+/**
+ * Reads the duration and frame size of a video file.
+ */
+export function loadVideoMetadata(file: File): Promise<{ duration: number; width: number; height: number }> {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        const videoUrl = URL.createObjectURL(file);
+        video.preload = 'metadata';
+        video.onloadedmetadata = async () => {
+            const duration = await resolveVideoDuration(video);
+            URL.revokeObjectURL(videoUrl);
+            resolve({ duration, width: video.videoWidth, height: video.videoHeight });
+        };
+        video.onerror = () => {
+            URL.revokeObjectURL(videoUrl);
+            reject(new AppError('unsupported_codec', `Could not read the metadata of ${file.name}.`));
+        };
+        video.src = videoUrl;
+    });
+}
+
 export function cropAndUpscaleImage(imageSrc: string, crop: CropArea): Promise<string> {
     return new Promise((resolve, reject) => {
         const img = new Image();
@@ -35,24 +100,199 @@ export function cropAndUpscaleImage(imageSrc: string, crop: CropArea): Promise<s
             resolve(canvas.toDataURL('image/jpeg', FRAME_QUALITY));
         };
         img.onerror = () => {
-            reject(new Error('Failed to load image for cropping.'));
+            reject(new AppError('decode_failed', 'Failed to load image for cropping.'));
         };
         img.src = imageSrc;
     });
 }
 
+/**
+ * Downscales a base64 JPEG frame into a small data URL, e.g. for history thumbnails.
+ */
+export function createThumbnail(frame: string, size: number = 96): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            const context = canvas.getContext('2d');
+            if (!context) {
+                return reject(new Error('Could not get canvas context.'));
+            }
+            const scale = size / Math.max(img.width, img.height);
+            canvas.width = Math.round(img.width * scale);
+            canvas.height = Math.round(img.height * scale);
+            context.drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', 0.8));
+        };
+        img.onerror = () => {
+            reject(new AppError('decode_failed', 'Failed to load image for thumbnail.'));
+        };
+        img.src = `data:image/jpeg;base64,${frame}`;
+    });
+}
+
+const loadFrameImage = (frame: string, purpose: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new AppError('decode_failed', `Failed to load image for ${purpose}.`));
+    img.src = `data:image/jpeg;base64,${frame}`;
+});
 
-export function extractFramesFromVideo(file: File, onProgress: (progress: number) => void, timeRange: TimeRange, crop: CropArea): Promise<string[]> {
-  return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
+/**
+ * Crops a base64 JPEG frame and upscales the crop like extracted frames are.
+ */
+export async function cropFrame(frame: string, crop: CropArea): Promise<string> {
+    const img = await loadFrameImage(frame, 'cropping');
     const canvas = document.createElement('canvas');
     const context = canvas.getContext('2d');
-    const frames: string[] = [];
+    if (!context) {
+        throw new Error('Could not get canvas context.');
+    }
+    const { width, height } = getOutputSize(crop.width / crop.height);
+    canvas.width = width;
+    canvas.height = height;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(img, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+    return canvas.toDataURL('image/jpeg', FRAME_QUALITY).split(',')[1];
+}
+
+/**
+ * Runs the preprocessing chain over base64 JPEG frames and re-encodes them at FRAME_QUALITY.
+ * The input frames are left untouched so they can be compared with the result.
+ */
+export async function preprocessFrames(frames: string[], chain: PreprocessingStep[], onProgress: (progress: number) => void): Promise<string[]> {
+    if (chain.length === 0) return frames;
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+        throw new Error('Could not get canvas context.');
+    }
+
+    const processed: string[] = [];
+    for (const frame of frames) {
+        const img = await loadFrameImage(frame, 'preprocessing');
+        canvas.width = img.width;
+        canvas.height = img.height;
+        context.drawImage(img, 0, 0);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        applyPreprocessing(image, chain);
+        context.putImageData(image, 0, 0);
+        processed.push(canvas.toDataURL('image/jpeg', FRAME_QUALITY).split(',')[1]);
+        onProgress(processed.length / frames.length);
+    }
+    return processed;
+}
 
+/**
+ * Keeps the frames that carry mouth motion: near-duplicates are dropped and, if still over
+ * MAX_FRAMES, static stretches are thinned (see `selectFramesByMotion`). Kept frames keep their
+ * own timestamps, so the sequence may be irregularly spaced.
+ */
+export async function selectInformativeFrames(sequence: FrameSequence, onProgress: (progress: number) => void): Promise<{ sequence: FrameSequence; dropped: DroppedFrame[] }> {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
     if (!context) {
-      return reject(new Error('Could not get canvas context.'));
+        throw new Error('Could not get canvas context.');
     }
 
+    const signatures: GrayImage[] = [];
+    for (const frame of sequence.frames) {
+        const img = await loadFrameImage(frame, 'motion analysis');
+        canvas.width = SIGNATURE_WIDTH;
+        canvas.height = Math.max(1, Math.round((img.height / img.width) * SIGNATURE_WIDTH));
+        context.drawImage(img, 0, 0, canvas.width, canvas.height);
+        signatures.push(toGrayscale(context.getImageData(0, 0, canvas.width, canvas.height)));
+        onProgress(signatures.length / sequence.frames.length);
+    }
+
+    const { kept, dropped, motion } = selectFramesByMotion(signatures, MAX_FRAMES);
+    const timestamps = kept.map(i => sequence.timestamps[i]);
+    return {
+        sequence: {
+            frames: kept.map(i => sequence.frames[i]),
+            timestamps,
+            fps: getSamplingRate(timestamps, sequence.fps),
+        },
+        dropped: dropped.map(({ index, reason }) => ({
+            frame: sequence.frames[index],
+            timestamp: sequence.timestamps[index],
+            reason,
+            motion: motion[index],
+        })),
+    };
+}
+
+
+/**
+ * Tiles consecutive frames into numbered contact sheets, reading left to right and top to bottom.
+ * Every tile is labelled with its frame number and its time relative to the first frame;
+ * the last sheet is cut after its last used row.
+ */
+export async function packContactSheets(sequence: FrameSequence, layout: ContactSheetLayout): Promise<FrameSequence> {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Could not get canvas context.');
+    }
+
+    const perSheet = layout.columns * layout.rows;
+    const tileWidth = Math.floor(CONTACT_SHEET_WIDTH / layout.columns);
+    const fontSize = Math.max(12, Math.round(tileWidth / 12));
+    const sheets: string[] = [];
+
+    for (let start = 0; start < sequence.frames.length; start += perSheet) {
+        const images = await Promise.all(
+            sequence.frames.slice(start, start + perSheet).map(frame => loadFrameImage(frame, 'contact sheet'))
+        );
+        const tileHeight = Math.round(tileWidth * images[0].height / images[0].width);
+        canvas.width = tileWidth * layout.columns;
+        canvas.height = tileHeight * Math.ceil(images.length / layout.columns);
+        context.fillStyle = 'black';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.font = `bold ${fontSize}px sans-serif`;
+        context.textBaseline = 'top';
+
+        images.forEach((img, i) => {
+            const index = start + i;
+            const x = (i % layout.columns) * tileWidth;
+            const y = Math.floor(i / layout.columns) * tileHeight;
+            context.drawImage(img, x, y, tileWidth, tileHeight);
+            context.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+            context.strokeRect(x + 0.5, y + 0.5, tileWidth - 1, tileHeight - 1);
+
+            const label = `#${index + 1} ${(sequence.timestamps[index] - sequence.timestamps[0]).toFixed(2)}s`;
+            const padding = Math.round(fontSize / 4);
+            context.fillStyle = 'rgba(0, 0, 0, 0.7)';
+            context.fillRect(x + 1, y + 1, context.measureText(label).width + padding * 2, fontSize + padding * 2);
+            context.fillStyle = 'white';
+            context.fillText(label, x + 1 + padding, y + 1 + padding);
+        });
+
+        sheets.push(canvas.toDataURL('image/jpeg', FRAME_QUALITY).split(',')[1]);
+    }
+
+    return { ...sequence, frames: sheets, sheetLayout: layout };
+}
+
+/**
+ * Seeks a hidden video to each planned frame start time and hands every decoded frame
+ * to `onFrame` together with that time. Seeking lands half a frame in, so rounding in the
+ * browser cannot pick the previous frame. Stops with the abort reason when `signal` aborts.
+ */
+function seekThroughRange(
+  file: File,
+  times: number[],
+  frameDuration: number,
+  onProgress: (progress: number) => void,
+  onFrame: (video: HTMLVideoElement, time: number) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const video = document.createElement('video');
+
     video.preload = 'metadata';
     video.muted = true;
     video.playsInline = true;
@@ -61,58 +301,53 @@ export function extractFramesFromVideo(file: File, onProgress: (progress: number
     video.src = videoUrl;
 
     video.onloadedmetadata = () => {
-      const cropAspectRatio = crop.width / crop.height;
-      let destWidth, destHeight;
-
-      if (cropAspectRatio > 1) { // Wider than tall
-          destWidth = UPSCALE_WIDTH;
-          destHeight = destWidth / cropAspectRatio;
-      } else { // Taller than wide or square
-          destHeight = UPSCALE_HEIGHT;
-          destWidth = destHeight * cropAspectRatio;
-      }
-
-      canvas.width = Math.round(destWidth);
-      canvas.height = Math.round(destHeight);
-
-      const duration = timeRange.end - timeRange.start;
-      if (duration <= 0) {
+      if (times.length === 0) {
         URL.revokeObjectURL(videoUrl);
-        return resolve([]);
+        return resolve();
       }
-      const interval = duration / MAX_FRAMES;
-      let currentTime = timeRange.start;
       let frameCount = 0;
 
       const captureFrame = () => {
-        if (currentTime > timeRange.end || frameCount >= MAX_FRAMES) {
+        if (signal?.aborted) {
+          URL.revokeObjectURL(videoUrl);
+          video.src = '';
+          reject(signal.reason);
+          return;
+        }
+        if (frameCount >= times.length) {
           URL.revokeObjectURL(videoUrl);
           video.src = '';
           onProgress(1);
-          resolve(frames);
+          resolve();
           return;
         }
 
-        video.currentTime = currentTime;
+        video.currentTime = times[frameCount] + frameDuration / 2;
       };
 
       video.onseeked = () => {
-        context.imageSmoothingQuality = 'high';
-        context.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
-
-        const dataUrl = canvas.toDataURL('image/jpeg', FRAME_QUALITY);
-        frames.push(dataUrl.split(',')[1]);
+        try {
+          onFrame(video, times[frameCount]);
+        } catch (error) {
+          URL.revokeObjectURL(videoUrl);
+          video.src = '';
+          reject(error);
+          return;
+        }
 
         frameCount++;
-        currentTime += interval;
-        onProgress(frameCount / MAX_FRAMES);
+        onProgress(frameCount / times.length);
         captureFrame();
       };
 
-      video.onerror = (e) => {
+      video.onerror = () => {
+          // Read before the source is cleared, which resets it.
+          const mediaError = video.error;
           URL.revokeObjectURL(videoUrl);
           video.src = '';
-          reject(new Error('Error loading video file.'));
+          reject(mediaError?.code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED
+            ? new AppError('unsupported_codec', mediaError.message || 'The video format or codec is not supported.')
+            : new AppError('decode_failed', mediaError?.message || 'Error loading video file.'));
       };
 
       // Call captureFrame to start the process
@@ -120,3 +355,234 @@ export function extractFramesFromVideo(file: File, onProgress: (progress: number
     };
   });
 }
+
+// Output size for a crop aspect ratio: the longer side is upscaled to UPSCALE_WIDTH/HEIGHT.
+export const getOutputSize = (cropAspectRatio: number) => {
+  let destWidth, destHeight;
+
+  if (cropAspectRatio > 1) { // Wider than tall
+      destWidth = UPSCALE_WIDTH;
+      destHeight = destWidth / cropAspectRatio;
+  } else { // Taller than wide or square
+      destHeight = UPSCALE_HEIGHT;
+      destWidth = destHeight * cropAspectRatio;
+  }
+
+  return { width: Math.round(destWidth), height: Math.round(destHeight) };
+};
+
+/**
+ * Draws the crop of the frame a (live) video is showing, upscaled like extracted frames, and returns
+ * it as base64 JPEG. Returns null until the video has a frame. Reuses `canvas` between calls.
+ */
+export function captureVideoCrop(video: HTMLVideoElement, crop: CropArea, canvas: HTMLCanvasElement): string | null {
+  const context = canvas.getContext('2d');
+  if (!context || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || crop.width <= 0 || crop.height <= 0) return null;
+  const { width, height } = getOutputSize(crop.width / crop.height);
+  canvas.width = width;
+  canvas.height = height;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+  return canvas.toDataURL('image/jpeg', FRAME_QUALITY).split(',')[1];
+}
+
+/**
+ * The duration of a video whose metadata is loaded. WebM files from MediaRecorder carry none
+ * (it reads as Infinity), so the browser is made to compute it by seeking past the end.
+ */
+export function resolveVideoDuration(video: HTMLVideoElement): Promise<number> {
+  if (Number.isFinite(video.duration)) return Promise.resolve(video.duration);
+  return new Promise((resolve) => {
+    video.addEventListener('durationchange', function onChange() {
+      if (!Number.isFinite(video.duration)) return;
+      video.removeEventListener('durationchange', onChange);
+      video.currentTime = 0;
+      resolve(video.duration);
+    });
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  });
+}
+
+const supportsWorkerExtraction = () =>
+  typeof Worker !== 'undefined' && typeof VideoDecoder !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+/**
+ * Runs the WebCodecs pipeline in `frameExtraction.worker.ts`.
+ * Resolves to null when the file or codec is not supported there, so the caller can fall back.
+ */
+function extractFramesInWorker(file: File, onProgress: (progress: number) => void, sampleTimes: number[], frameDuration: number, keyframes: CropKeyframe[], signal?: AbortSignal): Promise<{ frames: string[]; timestamps: number[] } | null> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const worker = new Worker(new URL('./frameExtraction.worker.ts', import.meta.url), { type: 'module' });
+    const { width, height } = getOutputSize(keyframes[0].crop.width / keyframes[0].crop.height);
+
+    // Terminating the worker stops decoding at once; no message arrives after it.
+    const onAbort = () => {
+      worker.terminate();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    worker.onmessage = (event: MessageEvent<FrameExtractionMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress(message.progress);
+          return;
+        case 'done':
+          finish();
+          resolve({ frames: message.frames, timestamps: message.timestamps });
+          return;
+        case 'unsupported':
+          finish();
+          resolve(null);
+          return;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          return;
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Frame extraction worker failed.'));
+    };
+
+    const request: FrameExtractionRequest = {
+      file,
+      sampleTimes,
+      frameDuration,
+      keyframes,
+      frameQuality: FRAME_QUALITY,
+      outputWidth: width,
+      outputHeight: height,
+    };
+    worker.postMessage(request);
+  });
+}
+
+// The original pipeline: seeks a hidden <video> frame by frame on the main thread.
+async function extractFramesBySeeking(file: File, onProgress: (progress: number) => void, sampleTimes: number[], frameDuration: number, keyframes: CropKeyframe[], signal?: AbortSignal): Promise<{ frames: string[]; timestamps: number[] }> {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  const frames: string[] = [];
+  const timestamps: number[] = [];
+
+  if (!context) {
+    throw new Error('Could not get canvas context.');
+  }
+
+  // Every frame is drawn at the aspect ratio of the first keyframe.
+  const cropAspectRatio = keyframes[0].crop.width / keyframes[0].crop.height;
+  const { width, height } = getOutputSize(cropAspectRatio);
+  canvas.width = width;
+  canvas.height = height;
+
+  await seekThroughRange(file, sampleTimes, frameDuration, onProgress, (video, time) => {
+    const crop = fitCropToAspect(interpolateCrop(keyframes, time), cropAspectRatio);
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+
+    const dataUrl = canvas.toDataURL('image/jpeg', FRAME_QUALITY);
+    frames.push(dataUrl.split(',')[1]);
+    timestamps.push(time);
+  }, signal);
+
+  return { frames, timestamps };
+}
+
+/**
+ * Extracts upscaled mouth crops of distinct source frames from the time range, with the media time
+ * of each. The crop follows the keyframes over time; a single keyframe gives a static crop, and a
+ * track from `trackCropThroughVideo` gives one crop per frame.
+ * Decoding happens in a WebCodecs worker when the browser and file allow it, otherwise by seeking.
+ * Rejects with the abort reason as soon as `signal` aborts.
+ */
+export async function extractFramesFromVideo(file: File, onProgress: (progress: number) => void, timeRange: TimeRange, keyframes: CropKeyframe[], sourceFps: number, maxFrames: number = MAX_FRAMES, signal?: AbortSignal): Promise<FrameSequence> {
+  if (keyframes.length === 0) {
+    throw new AppError('missing_input', 'No crop area defined.');
+  }
+
+  const sampleTimes = planSampleTimes(timeRange, sourceFps, maxFrames);
+  const frameDuration = 1 / sourceFps;
+  let result: { frames: string[]; timestamps: number[] } | null = null;
+
+  if (supportsWorkerExtraction()) {
+    try {
+      result = await extractFramesInWorker(file, onProgress, sampleTimes, frameDuration, keyframes, signal);
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.warn('WebCodecs extraction failed, falling back to seeking:', error);
+    }
+    if (!result) onProgress(0);
+  }
+
+  result ??= await extractFramesBySeeking(file, onProgress, sampleTimes, frameDuration, keyframes, signal);
+  if (sampleTimes.length > 0 && result.frames.length === 0) {
+    throw new AppError('decode_failed', 'No frames could be decoded in the time range.');
+  }
+  return { ...result, fps: getSamplingRate(result.timestamps, sourceFps) };
+}
+
+/**
+ * Follows the mouth through the range by template matching, starting from the crop the user drew.
+ * Returns one smoothed keyframe per sampled frame, ready to be reviewed and passed to `extractFramesFromVideo`.
+ */
+export async function trackCropThroughVideo(file: File, onProgress: (progress: number) => void, timeRange: TimeRange, keyframes: CropKeyframe[], sourceFps: number, signal?: AbortSignal): Promise<CropKeyframe[]> {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  const track: CropKeyframe[] = [];
+  let tracker: ReturnType<typeof createTemplateTracker> | null = null;
+  let scale = 1;
+
+  if (!context) {
+    throw new Error('Could not get canvas context.');
+  }
+  if (keyframes.length === 0) {
+    throw new AppError('missing_input', 'No crop area defined.');
+  }
+
+  const sampleCount = Math.max(MAX_FRAMES, Math.ceil((timeRange.end - timeRange.start) * TRACKING_SAMPLES_PER_SECOND));
+  const sampleTimes = planSampleTimes(timeRange, sourceFps, sampleCount);
+  await seekThroughRange(file, sampleTimes, 1 / sourceFps, onProgress, (video, time) => {
+    if (!tracker) {
+      scale = Math.min(1, TRACKING_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+    }
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const gray = toGrayscale(context.getImageData(0, 0, canvas.width, canvas.height));
+
+    // The user's crop sets the size; the tracker only moves its centre.
+    const userCrop = interpolateCrop(keyframes, time);
+    const scaledCrop = {
+      x: userCrop.x * scale,
+      y: userCrop.y * scale,
+      width: userCrop.width * scale,
+      height: userCrop.height * scale,
+    };
+
+    if (!tracker) {
+      tracker = createTemplateTracker(gray, scaledCrop);
+      track.push({ time, crop: userCrop });
+      return;
+    }
+
+    const center = tracker.update(gray);
+    track.push({
+      time,
+      crop: {
+        x: center.x / scale - userCrop.width / 2,
+        y: center.y / scale - userCrop.height / 2,
+        width: userCrop.width,
+        height: userCrop.height,
+      },
+    });
+  }, signal);
+
+  return smoothTrack(track);
+}
@@ -0,0 +1,156 @@
+import { PreprocessingStep, PreprocessingStepId } from '../types';
+
+type StepDefinition = {
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    defaultAmount: number;
+    apply: (image: ImageData, amount: number) => void;
+};
+
+const clamp = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value);
+
+const luma = (data: Uint8ClampedArray, p: number) => 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+
+// Applies the same 256-entry lookup table to the R, G and B channels.
+const applyLookupTable = (image: ImageData, table: Uint8ClampedArray) => {
+    const { data } = image;
+    for (let p = 0; p < data.length; p += 4) {
+        data[p] = table[data[p]];
+        data[p + 1] = table[data[p + 1]];
+        data[p + 2] = table[data[p + 2]];
+    }
+};
+
+// Computes a new value for every channel from its 3×3 neighbourhood (edges are clamped).
+const filter3x3 = (image: ImageData, compute: (neighbours: number[], center: number) => number) => {
+    const { width, height, data } = image;
+    const source = new Uint8ClampedArray(data);
+    const neighbours = new Array<number>(9);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const p = (y * width + x) * 4;
+            for (let c = 0; c < 3; c++) {
+                let n = 0;
+                for (let dy = -1; dy <= 1; dy++) {
+                    const sy = Math.min(height - 1, Math.max(0, y + dy));
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const sx = Math.min(width - 1, Math.max(0, x + dx));
+                        neighbours[n++] = source[(sy * width + sx) * 4 + c];
+                    }
+                }
+                data[p + c] = compute(neighbours, source[p + c]);
+            }
+        }
+    }
+};
+
+const grayscale = (image: ImageData, amount: number) => {
+    const { data } = image;
+    for (let p = 0; p < data.length; p += 4) {
+        const y = luma(data, p);
+        data[p] += (y - data[p]) * amount;
+        data[p + 1] += (y - data[p + 1]) * amount;
+        data[p + 2] += (y - data[p + 2]) * amount;
+    }
+};
+
+// Histogram equalisation of the luma; the change in brightness is added to every channel so hues are kept.
+const equalize = (image: ImageData, amount: number) => {
+    const { data } = image;
+    const histogram = new Uint32Array(256);
+    for (let p = 0; p < data.length; p += 4) histogram[Math.round(luma(data, p))]++;
+
+    const pixelCount = data.length / 4;
+    const mapping = new Float32Array(256);
+    let cumulative = 0;
+    let firstNonZero = -1;
+    for (let level = 0; level < 256; level++) {
+        cumulative += histogram[level];
+        if (firstNonZero < 0 && histogram[level] > 0) firstNonZero = cumulative;
+        mapping[level] = pixelCount === firstNonZero ? level : (255 * (cumulative - firstNonZero)) / (pixelCount - firstNonZero);
+    }
+
+    for (let p = 0; p < data.length; p += 4) {
+        const y = luma(data, p);
+        const shift = (Math.max(0, mapping[Math.round(y)]) - y) * amount;
+        data[p] += shift;
+        data[p + 1] += shift;
+        data[p + 2] += shift;
+    }
+};
+
+const contrast = (image: ImageData, amount: number) => {
+    const table = new Uint8ClampedArray(256);
+    for (let level = 0; level < 256; level++) table[level] = (level - 128) * amount + 128;
+    applyLookupTable(image, table);
+};
+
+const gamma = (image: ImageData, amount: number) => {
+    const table = new Uint8ClampedArray(256);
+    for (let level = 0; level < 256; level++) table[level] = 255 * Math.pow(level / 255, 1 / amount);
+    applyLookupTable(image, table);
+};
+
+// Unsharp mask against a 3×3 box blur.
+const sharpen = (image: ImageData, amount: number) => {
+    filter3x3(image, (neighbours, center) => {
+        const blur = neighbours.reduce((sum, v) => sum + v, 0) / 9;
+        return clamp(center + (center - blur) * amount);
+    });
+};
+
+// 3×3 median, blended with the original; removes sensor noise and JPEG speckle without blurring edges much.
+const denoise = (image: ImageData, amount: number) => {
+    filter3x3(image, (neighbours, center) => {
+        const median = neighbours.sort((a, b) => a - b)[4];
+        return center + (median - center) * amount;
+    });
+};
+
+// Lips are redder than the surrounding skin: the red–green difference is stretched so their outline stands out.
+const lipEmphasis = (image: ImageData, amount: number) => {
+    const { data } = image;
+    for (let p = 0; p < data.length; p += 4) {
+        const redness = data[p] - data[p + 1];
+        data[p] += redness * amount * 0.5;
+        data[p + 1] -= redness * amount * 0.5;
+    }
+};
+
+/**
+ * Every available step, in the order they are offered in the UI. `amount` is the strength
+ * (a blend factor, contrast multiplier or gamma value depending on the step).
+ */
+export const PREPROCESSING_STEPS: Record<PreprocessingStepId, StepDefinition> = {
+    grayscale: { label: 'Escala de grises', min: 0, max: 1, step: 0.05, defaultAmount: 1, apply: grayscale },
+    equalize: { label: 'Ecualización do histograma', min: 0, max: 1, step: 0.05, defaultAmount: 1, apply: equalize },
+    contrast: { label: 'Contraste', min: 0.5, max: 2.5, step: 0.05, defaultAmount: 1.4, apply: contrast },
+    gamma: { label: 'Gamma', min: 0.3, max: 3, step: 0.05, defaultAmount: 1.5, apply: gamma },
+    sharpen: { label: 'Enfoque', min: 0, max: 3, step: 0.1, defaultAmount: 1, apply: sharpen },
+    denoise: { label: 'Redución de ruído', min: 0, max: 1, step: 0.05, defaultAmount: 1, apply: denoise },
+    lipEmphasis: { label: 'Realce da cor dos beizos', min: 0, max: 2, step: 0.1, defaultAmount: 0.8, apply: lipEmphasis },
+};
+
+export const PREPROCESSING_STEP_IDS = Object.keys(PREPROCESSING_STEPS) as PreprocessingStepId[];
+
+export const createPreprocessingStep = (id: PreprocessingStepId): PreprocessingStep => ({
+    id,
+    amount: PREPROCESSING_STEPS[id].defaultAmount,
+});
+
+/**
+ * Runs the chain over the image in place, in order.
+ */
+export const applyPreprocessing = (image: ImageData, chain: PreprocessingStep[]) => {
+    for (const { id, amount } of chain) {
+        PREPROCESSING_STEPS[id]?.apply(image, amount);
+    }
+};
+
+/**
+ * Short description of a chain, e.g. "Contraste 1.4 → Enfoque 1".
+ */
+export const describePreprocessing = (chain: PreprocessingStep[]): string =>
+    chain.map(({ id, amount }) => `${PREPROCESSING_STEPS[id]?.label ?? id} ${amount}`).join(' → ');
@@ -0,0 +1,230 @@
+import { HistoryEntry, ProjectFile, ExtractionSettings, FrameSequence, SentFrames } from '../types';
+import { createZip, readZip } from './zip';
+import { decodeBase64, encodeBase64 } from './audio';
+
+const PROJECT_JSON = 'project.json';
+const FRAME_PREFIX = 'frames/';
+
+const frameFileName = (index: number) => `${FRAME_PREFIX}${String(index + 1).padStart(4, '0')}.jpg`;
+
+export const NO_SENT_FRAMES: SentFrames = { frames: [], timestamps: [] };
+
+/**
+ * The images of one request as sent frames; a packed sequence records how many frames each sheet tiles.
+ */
+export const toSentFrames = (sequence: FrameSequence): SentFrames => {
+    const { frames, timestamps, sheetLayout } = sequence;
+    if (!sheetLayout) return { frames, timestamps };
+    const perSheet = sheetLayout.columns * sheetLayout.rows;
+    return { frames, timestamps, sheetFrameCounts: frames.map((_, i) => Math.min(perSheet, timestamps.length - i * perSheet)) };
+};
+
+/**
+ * Adds the images of one more request (e.g. a long-form window) to those sent before.
+ */
+export const appendSentFrames = (sent: SentFrames, sequence: FrameSequence): SentFrames => {
+    const added = toSentFrames(sequence);
+    return {
+        frames: [...sent.frames, ...added.frames],
+        timestamps: [...sent.timestamps, ...added.timestamps],
+        sheetFrameCounts: added.sheetFrameCounts ? [...(sent.sheetFrameCounts ?? []), ...added.sheetFrameCounts] : sent.sheetFrameCounts,
+    };
+};
+
+/**
+ * Pairs the images read from an archive with the frame times the project recorded for them.
+ * The times are left out when they do not match the images (older projects, or no images).
+ */
+export const projectSentFrames = (project: ProjectFile, frames: string[]): SentFrames => {
+    const timestamps = project.frameTimestamps ?? [];
+    const counts = project.sheetFrameCounts;
+    const matches = counts
+        ? counts.length === frames.length && counts.reduce((sum, count) => sum + count, 0) === timestamps.length
+        : timestamps.length === frames.length;
+    return matches ? { frames, timestamps, sheetFrameCounts: counts } : { frames, timestamps: [] };
+};
+
+/**
+ * `frameCount` is the number of images included (frames or contact sheets); `sent` gives the time
+ * of every frame they show and how the frames were tiled.
+ */
+export const createProjectFile = (session: HistoryEntry, extraction: ExtractionSettings, frameCount: number, sent: SentFrames): ProjectFile => ({
+    format: 'beizosgal-project',
+    version: 1,
+    savedAt: new Date().toISOString(),
+    video: {
+        fileName: session.fileName,
+        fileSize: session.fileSize,
+        fileHash: session.fileHash,
+    },
+    timeRange: session.timeRange,
+    cropKeyframes: session.cropKeyframes,
+    cropTrack: session.cropTrack,
+    speakers: session.speakers,
+    language: session.language,
+    contextHints: session.contextHints,
+    extraction,
+    provider: session.provider,
+    model: session.model,
+    prompt: session.prompt,
+    promptTemplate: session.promptTemplate,
+    translationTarget: session.translationTarget,
+    result: {
+        transcription: session.transcription,
+        segments: session.segments,
+        details: session.result,
+        hypotheses: session.hypotheses,
+        speakerTranscripts: session.speakerTranscripts,
+    },
+    frameCount,
+    frameTimestamps: sent.timestamps,
+    sheetFrameCounts: sent.sheetFrameCounts,
+});
+
+/**
+ * Maps a project back onto a history-style session, which is what `App` knows how to restore.
+ */
+export const projectToSession = (project: ProjectFile): HistoryEntry => ({
+    createdAt: Date.parse(project.savedAt) || Date.now(),
+    fileName: project.video.fileName,
+    fileSize: project.video.fileSize,
+    fileHash: project.video.fileHash,
+    timeRange: project.timeRange,
+    cropKeyframes: project.cropKeyframes,
+    cropTrack: project.cropTrack,
+    speakers: project.speakers,
+    language: project.language,
+    contextHints: project.contextHints,
+    provider: project.provider,
+    model: project.model,
+    prompt: project.prompt,
+    promptTemplate: project.promptTemplate,
+    translationTarget: project.translationTarget,
+    transcription: project.result.transcription,
+    result: project.result.details,
+    hypotheses: project.result.hypotheses,
+    speakerTranscripts: project.result.speakerTranscripts,
+    segments: project.result.segments,
+    preprocessing: project.extraction.preprocessing ?? [],
+});
+
+export const serializeProject = (project: ProjectFile): string => JSON.stringify(project, null, 2);
+
+// Fields of a parsed project.json, before they are checked.
+type ParsedProject = {
+    format?: unknown;
+    version?: unknown;
+    video?: { fileName?: unknown; fileSize?: unknown; fileHash?: unknown } | null;
+    timeRange?: unknown;
+    cropKeyframes?: unknown;
+    cropTrack?: unknown;
+    speakers?: unknown;
+    language?: unknown;
+    extraction?: { sourceFps?: unknown; longFormEnabled?: unknown; packing?: unknown; preprocessing?: unknown } | null;
+    provider?: unknown;
+    model?: unknown;
+    prompt?: unknown;
+    result?: { transcription?: unknown; segments?: unknown } | null;
+    frameTimestamps?: unknown;
+    sheetFrameCounts?: unknown;
+} | null;
+
+const FRAME_PACKINGS = ['frames', 'grid-3x3', 'grid-4x4'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isNumberList = (value: unknown) => Array.isArray(value) && value.every(isNumber);
+
+const isTimeRange = (value: unknown) => {
+    const range = value as { start?: unknown; end?: unknown } | null;
+    return isNumber(range?.start) && isNumber(range?.end) && range.end > range.start;
+};
+
+const isKeyframeList = (value: unknown) => Array.isArray(value) && value.every((item: unknown) => {
+    const keyframe = item as { time?: unknown; crop?: { x?: unknown; y?: unknown; width?: unknown; height?: unknown } | null } | null;
+    const crop = keyframe?.crop;
+    return isNumber(keyframe?.time) && isNumber(crop?.x) && isNumber(crop?.y) && isNumber(crop?.width) && isNumber(crop?.height)
+        && crop.width > 0 && crop.height > 0;
+});
+
+const isSegmentList = (value: unknown) => Array.isArray(value) && value.every((item: unknown) => {
+    const segment = item as { start?: unknown; end?: unknown; text?: unknown } | null;
+    return isNumber(segment?.start) && isNumber(segment?.end) && typeof segment?.text === 'string';
+});
+
+const isSpeakerList = (value: unknown) => Array.isArray(value) && value.every((item: unknown) => {
+    const speaker = item as { label?: unknown; cropKeyframes?: unknown } | null;
+    return typeof speaker?.label === 'string' && isKeyframeList(speaker.cropKeyframes);
+});
+
+/**
+ * Parses and checks a project.json, so a hand-edited or damaged file is rejected here
+ * rather than failing halfway through a restore.
+ */
+export const parseProject = (json: string): ProjectFile => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('O ficheiro non é un proxecto de BeizosGal válido.');
+    }
+    const project = data as ParsedProject;
+    if (project?.format !== 'beizosgal-project' || project.version !== 1) {
+        throw new Error('O ficheiro non é un proxecto de BeizosGal válido.');
+    }
+    const { video, extraction, result } = project;
+    if (typeof video?.fileName !== 'string' || !isNumber(video.fileSize) || typeof video.fileHash !== 'string'
+        || !isTimeRange(project.timeRange) || !isKeyframeList(project.cropKeyframes) || (project.cropKeyframes as unknown[]).length === 0) {
+        throw new Error('O proxecto está incompleto: falta o vídeo, o intervalo ou o recorte.');
+    }
+    const damaged = (part: string) => new Error(`O proxecto está danado: ${part}.`);
+    if ((project.cropTrack != null && !isKeyframeList(project.cropTrack)) || (project.speakers !== undefined && !isSpeakerList(project.speakers))) {
+        throw damaged('o seguimento ou os falantes non son válidos');
+    }
+    if (!isNumber(extraction?.sourceFps) || !(extraction.sourceFps > 0) || typeof extraction.longFormEnabled !== 'boolean'
+        || (extraction.packing !== undefined && !FRAME_PACKINGS.includes(extraction.packing as string))
+        || (extraction.preprocessing !== undefined && !Array.isArray(extraction.preprocessing))) {
+        throw damaged('a configuración de extracción non é válida');
+    }
+    if (typeof result?.transcription !== 'string' || !isSegmentList(result.segments)) {
+        throw damaged('o resultado non é válido');
+    }
+    if (typeof project.language !== 'string' || typeof project.provider !== 'string' || typeof project.model !== 'string' || typeof project.prompt !== 'string') {
+        throw damaged('falta o idioma, o provedor, o modelo ou o prompt');
+    }
+    if ((project.frameTimestamps !== undefined && !isNumberList(project.frameTimestamps))
+        || (project.sheetFrameCounts !== undefined && !isNumberList(project.sheetFrameCounts))) {
+        throw damaged('a lista de fotogramas non é válida');
+    }
+    return { ...(data as ProjectFile), cropTrack: (project.cropTrack ?? null) as ProjectFile['cropTrack'] };
+};
+
+/**
+ * Packs the project and the exact base64 JPEG frames sent to the model into a ZIP.
+ */
+export const createProjectArchive = (project: ProjectFile, frames: string[]): Blob =>
+    createZip([
+        { name: PROJECT_JSON, data: new TextEncoder().encode(serializeProject(project)) },
+        ...frames.map((frame, index) => ({ name: frameFileName(index), data: decodeBase64(frame) })),
+    ]);
+
+/**
+ * Reads a `.json` project or a `.zip` archive created by `createProjectArchive`.
+ */
+export const readProjectFile = async (file: File): Promise<{ project: ProjectFile; frames: string[] }> => {
+    if (!file.name.toLowerCase().endsWith('.zip')) {
+        return { project: parseProject(await file.text()), frames: [] };
+    }
+
+    const entries = readZip(await file.arrayBuffer());
+    const json = entries.get(PROJECT_JSON);
+    if (!json) {
+        throw new Error(`O arquivo non contén ${PROJECT_JSON}.`);
+    }
+    const frames = [...entries.keys()]
+        .filter(name => name.startsWith(FRAME_PREFIX))
+        .sort()
+        .map(name => encodeBase64(entries.get(name)!));
+
+    return { project: parseProject(new TextDecoder().decode(json)), frames };
+};
@@ -0,0 +1,114 @@
+import { RetryState } from '../types';
+import { AppError } from './errors';
+
+/**
+ * HTTP statuses worth retrying: timeouts, rate limits and transient server errors.
+ */
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Delay before the first retry; each further retry doubles it, up to MAX_RETRY_DELAY_MS.
+ */
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export const isAbortError = (error: unknown): boolean =>
+    (error as { name?: unknown })?.name === 'AbortError';
+
+const isTimeoutError = (error: unknown): boolean =>
+    (error as { name?: unknown })?.name === 'TimeoutError';
+
+/**
+ * Whether an error is transient: a timeout, a retryable HTTP status (`status` is set by
+ * `AppError` and by the Gemini SDK's `ApiError`) or a network failure.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+    if (isTimeoutError(error)) return true;
+    const status = (error as { status?: unknown })?.status;
+    if (typeof status === 'number') return RETRYABLE_STATUSES.includes(status);
+    if (error instanceof AppError) return error.kind === 'network';
+    // fetch reports network failures (connection refused, DNS, CORS) as a bare TypeError.
+    return error instanceof TypeError;
+};
+
+const abortReason = (signal: AbortSignal) => signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+
+/**
+ * Rejects as soon as `signal` aborts, even if `promise` ignores the signal and keeps running.
+ */
+export const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+    if (signal.aborted) return Promise.reject(abortReason(signal));
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(abortReason(signal));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortReason(signal!));
+        };
+        if (signal?.aborted) return onAbort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential, with up to 25% random jitter so
+ * parallel clients hitting a rate limit do not retry in lockstep.
+ */
+export const retryDelay = (attempt: number): number =>
+    Math.round(Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1)) * (1 + Math.random() * 0.25));
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export type RetryOptions = {
+    /** Retries after the first attempt; 0 disables retrying. */
+    maxRetries: number;
+    /** Time limit of each attempt in milliseconds; 0 for none. */
+    timeoutMs: number;
+    /** Cancels the current attempt and any pending retry. */
+    signal?: AbortSignal;
+    onRetry?: (state: RetryState) => void;
+};
+
+/**
+ * Runs `operation` with a per-attempt timeout, retrying transient failures (see `isRetryableError`)
+ * with exponential backoff. Each attempt gets its own signal, aborted on timeout or when `signal`
+ * aborts; cancellation is never retried and rejects with the caller's abort reason.
+ */
+export async function retryWithBackoff<T>(operation: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> {
+    const { maxRetries, timeoutMs, signal, onRetry } = options;
+
+    for (let attempt = 0; ; attempt++) {
+        signal?.throwIfAborted();
+        const controller = new AbortController();
+        const forwardAbort = () => controller.abort(abortReason(signal!));
+        signal?.addEventListener('abort', forwardAbort, { once: true });
+        const timer = timeoutMs > 0
+            ? setTimeout(() => controller.abort(new DOMException(`Sen resposta en ${Math.round(timeoutMs / 1000)} s.`, 'TimeoutError')), timeoutMs)
+            : undefined;
+
+        try {
+            return await raceAbort(operation(controller.signal), controller.signal);
+        } catch (error) {
+            signal?.throwIfAborted();
+            // The attempt's own signal fired, so whatever the operation threw, it timed out.
+            const failure = controller.signal.aborted ? controller.signal.reason : error;
+            if (attempt >= maxRetries || !isRetryableError(failure)) throw failure;
+
+            const delayMs = retryDelay(attempt + 1);
+            onRetry?.({ attempt: attempt + 1, maxRetries, delaySeconds: Math.round(delayMs / 1000), reason: describeError(failure) });
+            await sleep(delayMs, signal);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', forwardAbort);
+        }
+    }
+}
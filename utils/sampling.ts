@@ -0,0 +1,123 @@
+import { TimeRange } from '../types';
+
+/**
+ * Frame rate assumed when the real one cannot be detected.
+ */
+export const DEFAULT_SOURCE_FPS = 30;
+
+/**
+ * Maximum number of frames to extract to avoid excessive API usage/cost and client-side processing.
+ * For optimal lip reading accuracy, keep video clips to ~3 seconds to maximize frame density
+ * (at ~30fps, 3 seconds = 90 frames which matches this limit). Longer ranges keep every
+ * n-th source frame instead of duplicating or skipping frames unevenly.
+ */
+export const MAX_FRAMES = 90;
+
+/**
+ * Common frame rates; a measured rate within 3% of one of these is snapped to it.
+ */
+const STANDARD_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60];
+
+/**
+ * Start times (in seconds) of the source frames to extract from the range. Every frame that
+ * starts inside the range is used when they fit in `maxFrames`; otherwise `maxFrames` distinct
+ * frames are picked evenly, so no frame is duplicated and none is skipped unevenly.
+ */
+export const planSampleTimes = (timeRange: TimeRange, sourceFps: number, maxFrames: number): number[] => {
+    const first = Math.ceil(timeRange.start * sourceFps - 1e-6);
+    const last = Math.ceil(timeRange.end * sourceFps - 1e-6) - 1;
+    const available = last - first + 1;
+    if (available <= 0) return [];
+
+    const count = Math.min(available, maxFrames);
+    if (count === 1) return [first / sourceFps];
+
+    const times: number[] = [];
+    for (let i = 0; i < count; i++) {
+        times.push((first + Math.round((i * (available - 1)) / (count - 1))) / sourceFps);
+    }
+    return times;
+};
+
+/**
+ * Effective sampling rate of a sequence of frame timestamps.
+ */
+export const getSamplingRate = (timestamps: number[], sourceFps: number): number => {
+    if (timestamps.length < 2) return sourceFps;
+    const span = timestamps[timestamps.length - 1] - timestamps[0];
+    return span > 0 ? (timestamps.length - 1) / span : sourceFps;
+};
+
+const snapFrameRate = (fps: number) =>
+    STANDARD_FRAME_RATES.find(rate => Math.abs(rate - fps) / rate < 0.03) ?? fps;
+
+/**
+ * Gives up measuring after this long (ms), e.g. when the browser never presents frames
+ * of a video that is not in the document.
+ */
+const DETECTION_TIMEOUT = 2000;
+
+/**
+ * Frames to observe before estimating the rate.
+ */
+const DETECTION_FRAMES = 12;
+
+/**
+ * Measures the source frame rate by briefly playing the video and reading the media time of
+ * each presented frame through `requestVideoFrameCallback`. Resolves to null when unsupported.
+ */
+export function detectFrameRate(file: File, startTime: number = 0): Promise<number | null> {
+    return new Promise((resolve) => {
+        const video = document.createElement('video');
+        if (!('requestVideoFrameCallback' in video)) {
+            return resolve(null);
+        }
+
+        video.muted = true;
+        video.playsInline = true;
+        const videoUrl = URL.createObjectURL(file);
+        video.src = videoUrl;
+        const mediaTimes: number[] = [];
+
+        const estimate = (): number | null => {
+            const deltas = mediaTimes
+                .slice(1)
+                .map((time, i) => time - mediaTimes[i])
+                .filter(delta => delta > 1e-4);
+            if (deltas.length < 3) return null;
+            // Dropped frames show up as multiples of the real interval, so trust the shortest ones.
+            const shortest = Math.min(...deltas);
+            const regular = deltas.filter(delta => delta < shortest * 1.5);
+            const average = regular.reduce((sum, delta) => sum + delta, 0) / regular.length;
+            return snapFrameRate(1 / average);
+        };
+
+        let finished = false;
+        const finish = () => {
+            if (finished) return;
+            finished = true;
+            clearTimeout(timeout);
+            video.pause();
+            URL.revokeObjectURL(videoUrl);
+            video.src = '';
+            resolve(estimate());
+        };
+        const timeout = setTimeout(finish, DETECTION_TIMEOUT);
+
+        const onVideoFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+            mediaTimes.push(metadata.mediaTime);
+            if (mediaTimes.length >= DETECTION_FRAMES) {
+                finish();
+            } else {
+                video.requestVideoFrameCallback(onVideoFrame);
+            }
+        };
+
+        video.onloadedmetadata = () => {
+            video.currentTime = Math.min(startTime, Math.max(0, video.duration - 1));
+            video.requestVideoFrameCallback(onVideoFrame);
+            video.play().catch(finish);
+        };
+        video.onerror = finish;
+    });
+}
@@ -0,0 +1,174 @@
+import { ContextPreset, DailySpending, PreprocessingStep, PromptTemplate, PromptTemplateRef, ProviderSettings, SpendingBudget } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS } from '../services/lipReadingProvider';
+import { DEFAULT_TRANSLATION_TARGET } from '../services/prompt';
+
+const PROVIDER_SETTINGS_KEY = 'beizosgal.providerSettings';
+const PREPROCESSING_KEY = 'beizosgal.preprocessing';
+const CONTEXT_PRESETS_KEY = 'beizosgal.contextPresets';
+const PROMPT_TEMPLATES_KEY = 'beizosgal.promptTemplates';
+const ACTIVE_PROMPT_TEMPLATE_KEY = 'beizosgal.activePromptTemplate';
+const BUDGET_KEY = 'beizosgal.budget';
+const DAILY_SPENDING_KEY = 'beizosgal.dailySpending';
+const TRANSLATION_TARGET_KEY = 'beizosgal.translationTarget';
+
+const DEFAULT_BUDGET: SpendingBudget = { sessionLimit: 0, dailyLimit: 0, mode: 'warn' };
+
+export const loadProviderSettings = (): ProviderSettings => {
+    try {
+        const stored = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as Partial<ProviderSettings>;
+            const defaults = DEFAULT_PROVIDER_SETTINGS[parsed.provider ?? 'gemini'] ?? DEFAULT_PROVIDER_SETTINGS.gemini;
+            return { ...defaults, ...parsed };
+        }
+    } catch (error) {
+        console.warn('Could not read provider settings:', error);
+    }
+    return DEFAULT_PROVIDER_SETTINGS.gemini;
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+    try {
+        localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.warn('Could not save provider settings:', error);
+    }
+};
+
+export const loadPreprocessingChain = (): PreprocessingStep[] => {
+    try {
+        const stored = localStorage.getItem(PREPROCESSING_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored);
+            if (Array.isArray(parsed)) return parsed as PreprocessingStep[];
+        }
+    } catch (error) {
+        console.warn('Could not read preprocessing settings:', error);
+    }
+    return [];
+};
+
+export const savePreprocessingChain = (chain: PreprocessingStep[]) => {
+    try {
+        localStorage.setItem(PREPROCESSING_KEY, JSON.stringify(chain));
+    } catch (error) {
+        console.warn('Could not save preprocessing settings:', error);
+    }
+};
+
+export const loadContextPresets = (): ContextPreset[] => {
+    try {
+        const stored = localStorage.getItem(CONTEXT_PRESETS_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored);
+            if (Array.isArray(parsed)) return parsed as ContextPreset[];
+        }
+    } catch (error) {
+        console.warn('Could not read context presets:', error);
+    }
+    return [];
+};
+
+export const saveContextPresets = (presets: ContextPreset[]) => {
+    try {
+        localStorage.setItem(CONTEXT_PRESETS_KEY, JSON.stringify(presets));
+    } catch (error) {
+        console.warn('Could not save context presets:', error);
+    }
+};
+
+/**
+ * The user's template versions; the built-in template is not stored.
+ */
+export const loadPromptTemplates = (): PromptTemplate[] => {
+    try {
+        const stored = localStorage.getItem(PROMPT_TEMPLATES_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored);
+            if (Array.isArray(parsed)) return parsed as PromptTemplate[];
+        }
+    } catch (error) {
+        console.warn('Could not read prompt templates:', error);
+    }
+    return [];
+};
+
+export const savePromptTemplates = (templates: PromptTemplate[]) => {
+    try {
+        localStorage.setItem(PROMPT_TEMPLATES_KEY, JSON.stringify(templates));
+    } catch (error) {
+        console.warn('Could not save prompt templates:', error);
+    }
+};
+
+export const loadActivePromptTemplate = (): Pick<PromptTemplateRef, 'id' | 'version'> | null => {
+    try {
+        const stored = localStorage.getItem(ACTIVE_PROMPT_TEMPLATE_KEY);
+        if (stored) return JSON.parse(stored);
+    } catch (error) {
+        console.warn('Could not read the active prompt template:', error);
+    }
+    return null;
+};
+
+export const saveActivePromptTemplate = (ref: Pick<PromptTemplateRef, 'id' | 'version'>) => {
+    try {
+        localStorage.setItem(ACTIVE_PROMPT_TEMPLATE_KEY, JSON.stringify(ref));
+    } catch (error) {
+        console.warn('Could not save the active prompt template:', error);
+    }
+};
+
+export const loadBudget = (): SpendingBudget => {
+    try {
+        const stored = localStorage.getItem(BUDGET_KEY);
+        if (stored) return { ...DEFAULT_BUDGET, ...JSON.parse(stored) };
+    } catch (error) {
+        console.warn('Could not read the spending budget:', error);
+    }
+    return DEFAULT_BUDGET;
+};
+
+export const saveBudget = (budget: SpendingBudget) => {
+    try {
+        localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+    } catch (error) {
+        console.warn('Could not save the spending budget:', error);
+    }
+};
+
+export const loadDailySpending = (): DailySpending => {
+    try {
+        const stored = localStorage.getItem(DAILY_SPENDING_KEY);
+        if (stored) return JSON.parse(stored) as DailySpending;
+    } catch (error) {
+        console.warn('Could not read the daily spending:', error);
+    }
+    return { date: '', cost: 0 };
+};
+
+export const saveDailySpending = (spending: DailySpending) => {
+    try {
+        localStorage.setItem(DAILY_SPENDING_KEY, JSON.stringify(spending));
+    } catch (error) {
+        console.warn('Could not save the daily spending:', error);
+    }
+};
+
+export const loadTranslationTarget = (): string => {
+    try {
+        const stored = localStorage.getItem(TRANSLATION_TARGET_KEY);
+        if (stored) return stored;
+    } catch (error) {
+        console.warn('Could not read the translation target:', error);
+    }
+    return DEFAULT_TRANSLATION_TARGET;
+};
+
+export const saveTranslationTarget = (target: string) => {
+    try {
+        localStorage.setItem(TRANSLATION_TARGET_KEY, target);
+    } catch (error) {
+        console.warn('Could not save the translation target:', error);
+    }
+};
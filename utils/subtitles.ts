@@ -0,0 +1,37 @@
+import { TranscriptSegment } from '../types';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+    srt: 'application/x-subrip',
+    vtt: 'text/vtt',
+};
+
+// Formats seconds as HH:MM:SS<separator>mmm, the timestamp both formats share.
+const formatTimestamp = (time: number, separator: ',' | '.') => {
+    const totalMilliseconds = Math.max(0, Math.round(time * 1000));
+    const hours = Math.floor(totalMilliseconds / 3600000);
+    const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+    const seconds = Math.floor((totalMilliseconds % 60000) / 1000);
+    const milliseconds = totalMilliseconds % 1000;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}${separator}${String(milliseconds).padStart(3, '0')}`;
+};
+
+// Cue text may not contain blank lines, which would end the cue early.
+const cueText = (text: string) => text.trim().replace(/\n\s*\n/g, '\n');
+
+export const toSrt = (segments: TranscriptSegment[]): string =>
+    segments
+        .map((segment, index) => `${index + 1}\n${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}\n${cueText(segment.text)}\n`)
+        .join('\n');
+
+export const toVtt = (segments: TranscriptSegment[]): string =>
+    'WEBVTT\n\n' + segments
+        .map(segment => `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}\n${cueText(segment.text)}\n`)
+        .join('\n');
+
+export const formatSubtitles = (segments: TranscriptSegment[], format: SubtitleFormat): string =>
+    format === 'srt' ? toSrt(segments) : toVtt(segments);
+
+export const findActiveSegment = (segments: TranscriptSegment[], time: number): TranscriptSegment | undefined =>
+    segments.find(segment => time >= segment.start && time < segment.end);
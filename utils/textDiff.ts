@@ -0,0 +1,32 @@
+export type DiffLine = { type: 'same' | 'added' | 'removed'; text: string };
+
+/**
+ * Line-by-line diff of two texts (longest common subsequence), in reading order.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    // common[i][j]: length of the LCS of a[i..] and b[j..].
+    const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push({ type: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (i < a.length && (j === b.length || common[i + 1][j] >= common[i][j + 1])) {
+            lines.push({ type: 'removed', text: a[i++] });
+        } else {
+            lines.push({ type: 'added', text: b[j++] });
+        }
+    }
+    return lines;
+};
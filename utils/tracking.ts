@@ -0,0 +1,147 @@
+import { CropArea, CropKeyframe } from '../types';
+
+/**
+ * Luma-only image used by the tracker.
+ */
+export type GrayImage = {
+    data: Float32Array;
+    width: number;
+    height: number;
+};
+
+/**
+ * How much of the newly matched patch is blended into the template after every frame.
+ * Low enough to resist drift, high enough to adapt to the mouth opening and closing.
+ */
+const TEMPLATE_ADAPTATION = 0.15;
+
+/**
+ * Half-width of the centred moving average used to stabilise the track (in frames).
+ */
+const SMOOTHING_RADIUS = 2;
+
+export const toGrayscale = (image: ImageData): GrayImage => {
+    const data = new Float32Array(image.width * image.height);
+    for (let i = 0, p = 0; i < data.length; i++, p += 4) {
+        data[i] = 0.299 * image.data[p] + 0.587 * image.data[p + 1] + 0.114 * image.data[p + 2];
+    }
+    return { data, width: image.width, height: image.height };
+};
+
+const extractPatch = (image: GrayImage, x: number, y: number, width: number, height: number): Float32Array => {
+    const patch = new Float32Array(width * height);
+    for (let row = 0; row < height; row++) {
+        const sy = Math.min(image.height - 1, Math.max(0, y + row));
+        for (let col = 0; col < width; col++) {
+            const sx = Math.min(image.width - 1, Math.max(0, x + col));
+            patch[row * width + col] = image.data[sy * image.width + sx];
+        }
+    }
+    return patch;
+};
+
+const mean = (values: Float32Array) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Tracks a rectangular patch frame to frame with a brightness-normalised sum of absolute
+ * differences, searching a window around the previous position. Coordinates are in the
+ * pixels of the gray images passed in.
+ */
+export const createTemplateTracker = (firstFrame: GrayImage, crop: CropArea) => {
+    const width = Math.max(1, Math.round(crop.width));
+    const height = Math.max(1, Math.round(crop.height));
+    const searchRadius = Math.max(4, Math.round(Math.max(width, height) * 0.5));
+    const sampleStep = Math.max(1, Math.floor(Math.min(width, height) / 16));
+
+    let x = Math.round(crop.x);
+    let y = Math.round(crop.y);
+    let template = extractPatch(firstFrame, x, y, width, height);
+    let templateMean = mean(template);
+
+    const score = (frame: GrayImage, px: number, py: number, best: number): number => {
+        let candidateSum = 0;
+        let count = 0;
+        for (let row = 0; row < height; row += sampleStep) {
+            for (let col = 0; col < width; col += sampleStep) {
+                candidateSum += frame.data[(py + row) * frame.width + px + col];
+                count++;
+            }
+        }
+        const offset = candidateSum / count - templateMean;
+
+        let sad = 0;
+        for (let row = 0; row < height; row += sampleStep) {
+            for (let col = 0; col < width; col += sampleStep) {
+                sad += Math.abs(frame.data[(py + row) * frame.width + px + col] - offset - template[row * width + col]);
+            }
+            if (sad >= best) return sad;
+        }
+        return sad;
+    };
+
+    return {
+        /**
+         * Finds the template in the new frame and returns the centre of the match.
+         */
+        update(frame: GrayImage): { x: number; y: number } {
+            let best = Infinity;
+            let bestX = x;
+            let bestY = y;
+
+            const minX = Math.max(0, x - searchRadius);
+            const maxX = Math.min(frame.width - width, x + searchRadius);
+            const minY = Math.max(0, y - searchRadius);
+            const maxY = Math.min(frame.height - height, y + searchRadius);
+
+            for (let py = minY; py <= maxY; py++) {
+                for (let px = minX; px <= maxX; px++) {
+                    const candidate = score(frame, px, py, best);
+                    if (candidate < best) {
+                        best = candidate;
+                        bestX = px;
+                        bestY = py;
+                    }
+                }
+            }
+
+            x = bestX;
+            y = bestY;
+
+            const matched = extractPatch(frame, x, y, width, height);
+            for (let i = 0; i < template.length; i++) {
+                template[i] = template[i] * (1 - TEMPLATE_ADAPTATION) + matched[i] * TEMPLATE_ADAPTATION;
+            }
+            templateMean = mean(template);
+
+            return { x: x + width / 2, y: y + height / 2 };
+        },
+    };
+};
+
+/**
+ * Stabilises a per-frame track with a centred moving average of the crop centres,
+ * so small head jitter does not shake the mouth in the frames sent to the model.
+ */
+export const smoothTrack = (track: CropKeyframe[], radius: number = SMOOTHING_RADIUS): CropKeyframe[] =>
+    track.map((keyframe, index) => {
+        const from = Math.max(0, index - radius);
+        const to = Math.min(track.length - 1, index + radius);
+        let centerX = 0;
+        let centerY = 0;
+        for (let i = from; i <= to; i++) {
+            centerX += track[i].crop.x + track[i].crop.width / 2;
+            centerY += track[i].crop.y + track[i].crop.height / 2;
+        }
+        const count = to - from + 1;
+        const { width, height } = keyframe.crop;
+
+        return {
+            time: keyframe.time,
+            crop: {
+                x: Math.round(centerX / count - width / 2),
+                y: Math.round(centerY / count - height / 2),
+                width,
+                height,
+            },
+        };
+    });
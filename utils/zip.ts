@@ -0,0 +1,130 @@
+/**
+ * Minimal ZIP support for project files. Entries are written uncompressed ("stored"):
+ * the payload is mostly JPEG frames, which do not compress further, and this avoids a dependency.
+ * The reader only understands stored entries, i.e. archives written by `createZip`.
+ */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (data: Uint8Array): number => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+export type ZipEntry = {
+    name: string;
+    data: Uint8Array;
+};
+
+export const createZip = (entries: ZipEntry[]): Blob => {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+
+        const local = new Uint8Array(30 + name.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+        localView.setUint16(4, 20, true); // version needed
+        localView.setUint16(8, 0, true); // stored
+        localView.setUint32(14, crc, true);
+        localView.setUint32(18, entry.data.length, true);
+        localView.setUint32(22, entry.data.length, true);
+        localView.setUint16(26, name.length, true);
+        local.set(name, 30);
+
+        const central = new Uint8Array(46 + name.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+        centralView.setUint16(4, 20, true); // version made by
+        centralView.setUint16(6, 20, true); // version needed
+        centralView.setUint16(10, 0, true); // stored
+        centralView.setUint32(16, crc, true);
+        centralView.setUint32(20, entry.data.length, true);
+        centralView.setUint32(24, entry.data.length, true);
+        centralView.setUint16(28, name.length, true);
+        centralView.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        parts.push(local, entry.data);
+        centralDirectory.push(central);
+        offset += local.length + entry.data.length;
+    }
+
+    const centralSize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+};
+
+export const readZip = (buffer: ArrayBuffer): Map<string, Uint8Array> => {
+    const view = new DataView(buffer);
+    const decoder = new TextDecoder();
+    const entries = new Map<string, Uint8Array>();
+
+    let endOffset = -1;
+    for (let i = buffer.byteLength - 22; i >= 0; i--) {
+        if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset < 0) {
+        throw new Error('Not a ZIP file.');
+    }
+
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let pointer = view.getUint32(endOffset + 16, true);
+
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(pointer, true) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error('Corrupted ZIP central directory.');
+        }
+        const method = view.getUint16(pointer + 10, true);
+        const size = view.getUint32(pointer + 20, true);
+        const nameLength = view.getUint16(pointer + 28, true);
+        const extraLength = view.getUint16(pointer + 30, true);
+        const commentLength = view.getUint16(pointer + 32, true);
+        const localOffset = view.getUint32(pointer + 42, true);
+        const name = decoder.decode(new Uint8Array(buffer, pointer + 46, nameLength));
+
+        if (method !== 0) {
+            throw new Error(`Compressed ZIP entries are not supported (${name}).`);
+        }
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        const localExtraLength = view.getUint16(localOffset + 28, true);
+        const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+        entries.set(name, new Uint8Array(buffer.slice(dataStart, dataStart + size)));
+
+        pointer += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+};